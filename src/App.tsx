@@ -2,16 +2,42 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Login from "./pages/auth/Login";
 import Dashboard from "./pages/Dashboard";
 import Register from "./pages/auth/Register";
+import ForgotPassword from "./pages/auth/ForgotPassword";
+import ResetPassword from "./pages/auth/ResetPassword";
+import VerifyEmail from "./pages/auth/VerifyEmail";
+import VerifyEmailPending from "./pages/auth/VerifyEmailPending";
+import Settings from "./pages/settings/Settings";
+import Users from "./pages/users/Users";
+import { AuthProvider } from "./context/AuthContext";
+import ProtectedRoute from "./components/routes/ProtectedRoute";
+import PublicOnlyRoute from "./components/routes/PublicOnlyRoute";
+import { ROUTES, USER_ADMIN } from "./util/config";
 
 export default function App() {
   return (
     <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Login />} />
-        <Route path="/login" element={<Login />} />
-        <Route path="/register" element={<Register />} />
-        <Route path="/dashboard" element={<Dashboard />} />
-      </Routes>
+      <AuthProvider>
+        <Routes>
+          <Route element={<PublicOnlyRoute />}>
+            <Route path={ROUTES.HOME} element={<Login />} />
+            <Route path={ROUTES.LOGIN} element={<Login />} />
+            <Route path={ROUTES.REGISTER} element={<Register />} />
+            <Route path={ROUTES.FORGOT_PASSWORD} element={<ForgotPassword />} />
+          </Route>
+          <Route path={ROUTES.RESET_PASSWORD} element={<ResetPassword />} />
+          <Route path={ROUTES.VERIFY_EMAIL} element={<VerifyEmail />} />
+          <Route element={<ProtectedRoute unverified="allow" />}>
+            <Route path={ROUTES.VERIFY_EMAIL_PENDING} element={<VerifyEmailPending />} />
+          </Route>
+          <Route element={<ProtectedRoute />}>
+            <Route path={ROUTES.DASHBOARD} element={<Dashboard />} />
+            <Route path={ROUTES.SETTINGS} element={<Settings />} />
+          </Route>
+          <Route element={<ProtectedRoute roles={USER_ADMIN.ROLES} />}>
+            <Route path={ROUTES.USERS} element={<Users />} />
+          </Route>
+        </Routes>
+      </AuthProvider>
     </BrowserRouter>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import React, { ReactNode, useEffect, useRef } from "react";
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  children?: ReactNode;
+  confirmLabel?: string;
+  /** Styles the confirm button as destructive */
+  danger?: boolean;
+  pending?: boolean;
+  error?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal yes/no prompt; Cancel is focused first so Enter never confirms by accident
+ */
+export default function ConfirmDialog({
+  open,
+  title,
+  children,
+  confirmLabel = "Confirm",
+  danger = false,
+  pending = false,
+  error,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    cancelRef.current?.focus();
+  }, [open]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40" aria-hidden="true" />
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-title"
+        onKeyDown={(event) => {
+          if (event.key !== "Escape") return;
+          // Keep Escape from also closing a drawer or dialog underneath
+          event.stopPropagation();
+          if (!pending) onCancel();
+        }}
+        className="relative w-full max-w-sm rounded-lg bg-white p-6 shadow-xl space-y-4"
+      >
+        <h2 id="confirm-title" className="text-lg font-semibold">
+          {title}
+        </h2>
+        {children && <div className="text-sm text-gray-600">{children}</div>}
+        {error && (
+          <p className="text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          <button
+            ref={cancelRef}
+            type="button"
+            onClick={onCancel}
+            disabled={pending}
+            className="px-4 py-2 rounded bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={pending}
+            className={`px-4 py-2 rounded text-white disabled:opacity-50 ${
+              danger ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+            }`}
+          >
+            {pending ? "Working..." : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import React, { ReactNode, useEffect, useRef } from "react";
+import { X } from "lucide-react";
+
+interface DrawerProps {
+  open: boolean;
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+}
+
+/**
+ * Side panel over the page; closes on Escape (while focus is inside) or a backdrop click
+ */
+export default function Drawer({ open, title, onClose, children }: DrawerProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const previousFocus = document.activeElement as HTMLElement | null;
+    panelRef.current?.focus();
+    return () => previousFocus?.focus?.();
+  }, [open]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} aria-hidden="true" />
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="drawer-title"
+        tabIndex={-1}
+        onKeyDown={(event) => event.key === "Escape" && onClose()}
+        className="relative flex flex-col w-full max-w-md h-full bg-white shadow-xl focus:outline-none"
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b">
+          <h2 id="drawer-title" className="text-lg font-semibold">
+            {title}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded text-gray-500 hover:bg-gray-100"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-5">{children}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import React from "react";
+import { useResendVerification } from "../hooks/useResendVerification";
+import { SUCCESS_MESSAGES } from "../util/config";
+
+export default function EmailVerificationBanner({ email }: { email: string }) {
+  const { resend, sending, sent, error, secondsRemaining } = useResendVerification();
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 text-amber-800 text-sm px-4 py-2 flex flex-wrap items-center justify-center gap-2">
+      <span>
+        Please verify <span className="font-semibold">{email}</span> to unlock all features.
+      </span>
+      {sent && <span className="text-green-700">{SUCCESS_MESSAGES.VERIFICATION_SENT}</span>}
+      {error && <span className="text-red-600">{error}</span>}
+      <button
+        onClick={resend}
+        disabled={sending || secondsRemaining > 0}
+        className="font-medium underline disabled:opacity-60 disabled:no-underline"
+      >
+        {secondsRemaining > 0 ? `Resend in ${secondsRemaining}s` : "Resend email"}
+      </button>
+    </div>
+  );
+}
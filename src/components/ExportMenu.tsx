@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { ExportColumn, ExportFormat, exportRows } from "../util/export";
+import { formatNumber, isCancelledError } from "../util";
+
+export type FetchAllRows<T> = (
+  signal: AbortSignal,
+  onProgress: (loaded: number, total: number) => void
+) => Promise<T[]>;
+
+interface ExportMenuProps<T> {
+  columns: ExportColumn<T>[];
+  /** Rows on screen */
+  rows: T[];
+  /** Without extension */
+  filename: string;
+  /** Loads every row (e.g. via fetchAllPages); omit when `rows` is already everything */
+  fetchAll?: FetchAllRows<T>;
+  /** Label of the on-screen rows, e.g. "Current page" */
+  currentLabel?: string;
+  disabled?: boolean;
+}
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel" },
+];
+
+/**
+ * Export button with CSV/Excel choices for the on-screen rows and, optionally, all rows
+ */
+export default function ExportMenu<T>({
+  columns,
+  rows,
+  filename,
+  fetchAll,
+  currentLabel = "Current page",
+  disabled = false,
+}: ExportMenuProps<T>) {
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointer = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handlePointer);
+    return () => document.removeEventListener("mousedown", handlePointer);
+  }, [open]);
+
+  // Unmounting mid-export cancels the remaining page requests
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const exportCurrent = (format: ExportFormat) => {
+    exportRows(rows, columns, { format, filename });
+    setOpen(false);
+  };
+
+  const exportAll = async (format: ExportFormat) => {
+    if (!fetchAll) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError("");
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      const allRows = await fetchAll(controller.signal, (loaded, total) =>
+        setProgress({ loaded, total })
+      );
+      exportRows(allRows, columns, { format, filename: `${filename}-all` });
+      setOpen(false);
+    } catch (err) {
+      if (!isCancelledError(err) && !controller.signal.aborted) {
+        setError((err as Error).message);
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const renderGroup = (label: string, onSelect: (format: ExportFormat) => void) => (
+    <div role="group" aria-label={label} className="py-1">
+      <p className="px-2 py-1 text-xs font-medium uppercase text-gray-500">{label}</p>
+      {FORMATS.map(({ value, label: formatLabel }) => (
+        <button
+          key={value}
+          type="button"
+          disabled={!!progress}
+          onClick={() => onSelect(value)}
+          aria-label={`Export ${label.toLowerCase()} as ${formatLabel}`}
+          className="block w-full rounded px-2 py-1 text-left text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          {formatLabel}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      ref={menuRef}
+      className="relative"
+      onKeyDown={(event) => {
+        if (event.key === "Escape" && open) {
+          event.stopPropagation();
+          setOpen(false);
+        }
+      }}
+    >
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-haspopup="true"
+        disabled={disabled}
+        onClick={() => setOpen((current) => !current)}
+        className="inline-flex items-center gap-1.5 border border-gray-300 rounded-md px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" aria-hidden="true" />
+        Export
+      </button>
+
+      {open && (
+        <div
+          role="group"
+          aria-label="Export options"
+          className="absolute right-0 z-20 mt-1 w-56 divide-y rounded-md border bg-white p-1 shadow-lg"
+        >
+          {renderGroup(fetchAll ? currentLabel : "Rows", exportCurrent)}
+          {fetchAll && renderGroup("All rows", exportAll)}
+
+          {progress && (
+            <div
+              className="flex items-center justify-between gap-2 px-2 py-2 text-sm"
+              role="status"
+            >
+              <span className="text-gray-600">
+                {progress.total
+                  ? `Fetched ${formatNumber(progress.loaded)} of ${formatNumber(progress.total)}`
+                  : "Preparing…"}
+              </span>
+              <button
+                type="button"
+                onClick={() => controllerRef.current?.abort()}
+                className="text-blue-600 hover:underline"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+          {error && (
+            <p className="px-2 py-2 text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import React from "react";
+
+export default function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <span className="block text-red-600 text-xs mt-1">{message}</span>;
+}
@@ -0,0 +1,10 @@
+import React from "react";
+
+export default function LoadingScreen({ message = "Loading..." }: { message?: string }) {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-slate-100">
+      <div className="w-10 h-10 border-4 border-sky-200 border-t-sky-600 rounded-full animate-spin" />
+      <p className="text-sm text-slate-500 mt-4">{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { PaginationMeta } from "../types";
+import { PAGINATION } from "../util/config";
+import { formatNumber } from "../util";
+
+interface PaginationProps {
+  meta: PaginationMeta;
+  onPageChange: (page: number) => void;
+  /** Shows a page size picker when provided */
+  onLimitChange?: (limit: number) => void;
+  disabled?: boolean;
+}
+
+export default function Pagination({
+  meta,
+  onPageChange,
+  onLimitChange,
+  disabled = false,
+}: PaginationProps) {
+  const { page, limit, total, totalPages } = meta;
+  const first = total === 0 ? 0 : (page - 1) * limit + 1;
+  const last = Math.min(total, page * limit);
+
+  return (
+    <nav
+      className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-600"
+      aria-label="Pagination"
+    >
+      <p>
+        Showing {formatNumber(first)}–{formatNumber(last)} of {formatNumber(total)}
+      </p>
+      <div className="flex items-center gap-3">
+        {onLimitChange && (
+          <label className="flex items-center gap-2">
+            Rows per page
+            <select
+              value={limit}
+              disabled={disabled}
+              onChange={(event) => onLimitChange(Number(event.target.value))}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {PAGINATION.PAGE_SIZE_OPTIONS.filter((size) => size <= PAGINATION.MAX_LIMIT).map(
+                (size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                )
+              )}
+            </select>
+          </label>
+        )}
+        <span>
+          Page {page} of {Math.max(1, totalPages)}
+        </span>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => onPageChange(page - 1)}
+            disabled={disabled || page <= 1}
+            className="p-1.5 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onPageChange(page + 1)}
+            disabled={disabled || page >= totalPages}
+            className="p-1.5 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </nav>
+  );
+}
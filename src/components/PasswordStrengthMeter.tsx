@@ -0,0 +1,55 @@
+import React from "react";
+import { Check, X } from "lucide-react";
+import { PasswordEvaluation, PasswordStrength } from "../util/passwordPolicy";
+
+const STRENGTH_STYLES: Record<PasswordStrength, { label: string; bar: string; text: string }> = {
+  "very-weak": { label: "Very weak", bar: "bg-red-500", text: "text-red-600" },
+  weak: { label: "Weak", bar: "bg-orange-500", text: "text-orange-600" },
+  fair: { label: "Fair", bar: "bg-yellow-500", text: "text-yellow-600" },
+  good: { label: "Good", bar: "bg-lime-500", text: "text-lime-600" },
+  strong: { label: "Strong", bar: "bg-green-600", text: "text-green-700" },
+};
+
+interface PasswordStrengthMeterProps {
+  evaluation: PasswordEvaluation;
+  showChecklist?: boolean;
+}
+
+export default function PasswordStrengthMeter({
+  evaluation,
+  showChecklist = true,
+}: PasswordStrengthMeterProps) {
+  const style = STRENGTH_STYLES[evaluation.strength];
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[1, 2, 3, 4].map((segment) => (
+            <div
+              key={segment}
+              className={`h-1.5 flex-1 rounded-full ${
+                evaluation.score >= segment ? style.bar : "bg-slate-200"
+              }`}
+            />
+          ))}
+        </div>
+        <span className={`text-xs font-medium w-16 text-right ${style.text}`}>{style.label}</span>
+      </div>
+
+      {showChecklist && (
+        <ul className="text-xs space-y-1">
+          {evaluation.rules.map((rule) => (
+            <li
+              key={rule.id}
+              className={`flex items-center gap-1.5 ${rule.passed ? "text-green-700" : "text-slate-500"}`}
+            >
+              {rule.passed ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+              {rule.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from "react";
+
+export interface TooltipRow {
+  key: string;
+  label: string;
+  value: string;
+  color: string;
+}
+
+interface ChartTooltipProps {
+  title: string;
+  rows: TooltipRow[];
+  /** Anchor within the chart container (px) */
+  x: number;
+  y: number;
+  containerWidth: number;
+}
+
+const TOOLTIP_WIDTH = 200;
+const OFFSET = 12;
+
+/**
+ * Floating value box; flips to the left of the anchor near the container's right edge
+ */
+export default function ChartTooltip({ title, rows, x, y, containerWidth }: ChartTooltipProps) {
+  const flip = x + OFFSET + TOOLTIP_WIDTH > containerWidth;
+  const left = flip ? Math.max(0, x - OFFSET - TOOLTIP_WIDTH) : x + OFFSET;
+
+  return (
+    <div
+      role="tooltip"
+      className="pointer-events-none absolute z-10 rounded-md bg-gray-900/90 px-3 py-2 text-xs text-white shadow-lg"
+      style={{ left, top: y, width: TOOLTIP_WIDTH }}
+    >
+      <p className="mb-1 font-semibold">{title}</p>
+      {rows.map((row) => (
+        <p key={row.key} className="flex items-center justify-between gap-2">
+          <span className="inline-flex items-center gap-1.5 truncate">
+            <span
+              className="inline-block w-2 h-2 rounded-full shrink-0"
+              style={{ backgroundColor: row.color }}
+            />
+            {row.label}
+          </span>
+          <span className="font-medium tabular-nums">{row.value}</span>
+        </p>
+      ))}
+    </div>
+  );
+}
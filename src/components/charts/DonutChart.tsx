@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { useElementSize } from "../../hooks/useElementSize";
+import { THEME } from "../../util/config";
+import { formatNumber, formatPercent } from "../../util";
+import Legend from "./Legend";
+import { getArcPath } from "./scales";
+
+export interface DonutSlice {
+  key: string;
+  label: string;
+  value: number;
+  color?: string;
+}
+
+interface DonutChartProps {
+  slices: DonutSlice[];
+  /** Accessible name of the chart */
+  label: string;
+  /** Largest diameter (px); shrinks to fit narrow containers */
+  maxSize?: number;
+  /** Ring thickness as a share of the radius */
+  thickness?: number;
+  formatValue?: (value: number) => string;
+  /** Shown in the middle while no slice is hovered */
+  centerLabel?: string;
+}
+
+/**
+ * Share-of-total ring; hovering or focusing a slice shows its value in the middle
+ */
+export default function DonutChart({
+  slices,
+  label,
+  maxSize = 220,
+  thickness = 0.35,
+  formatValue = (value) => formatNumber(value),
+  centerLabel = "Total",
+}: DonutChartProps) {
+  const [containerRef, { width }] = useElementSize();
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+
+  const size = width ? Math.min(maxSize, width) : maxSize;
+  const radius = size / 2;
+  const innerRadius = radius * (1 - thickness);
+  const total = slices.reduce((sum, slice) => sum + Math.max(0, slice.value), 0);
+
+  let angle = 0;
+  const arcs = slices.map((slice, index) => {
+    const share = total ? Math.max(0, slice.value) / total : 0;
+    const start = angle;
+    angle += share * Math.PI * 2;
+    return {
+      ...slice,
+      share,
+      start,
+      end: angle,
+      color: slice.color || THEME.CHART_COLORS[index % THEME.CHART_COLORS.length],
+    };
+  });
+  const active = arcs.find((arc) => arc.key === activeKey);
+
+  return (
+    <div className="flex flex-wrap items-center gap-6">
+      <div ref={containerRef} className="w-full" style={{ maxWidth: maxSize }}>
+        <svg width={size} height={size} role="img" aria-label={label} className="block">
+          {total === 0 ? (
+            <circle
+              cx={radius}
+              cy={radius}
+              r={(radius + innerRadius) / 2}
+              fill="none"
+              stroke="#e5e7eb"
+              strokeWidth={radius - innerRadius}
+            />
+          ) : (
+            arcs
+              .filter((arc) => arc.share > 0)
+              .map((arc) => (
+                <path
+                  key={arc.key}
+                  d={getArcPath(radius, radius, radius, innerRadius, arc.start, arc.end)}
+                  fill={arc.color}
+                  opacity={activeKey && activeKey !== arc.key ? 0.4 : 1}
+                  stroke="white"
+                  strokeWidth={1}
+                  tabIndex={0}
+                  aria-label={`${arc.label}: ${formatValue(arc.value)} (${formatPercent(
+                    arc.share,
+                    1
+                  )})`}
+                  onMouseEnter={() => setActiveKey(arc.key)}
+                  onMouseLeave={() => setActiveKey(null)}
+                  onFocus={() => setActiveKey(arc.key)}
+                  onBlur={() => setActiveKey(null)}
+                  className="focus:outline-none"
+                />
+              ))
+          )}
+          <text
+            x={radius}
+            y={radius - 8}
+            textAnchor="middle"
+            fontSize={12}
+            fill="#6b7280"
+            aria-hidden="true"
+          >
+            {active ? active.label : centerLabel}
+          </text>
+          <text
+            x={radius}
+            y={radius + 12}
+            textAnchor="middle"
+            fontSize={16}
+            fontWeight={600}
+            fill="#111827"
+            aria-hidden="true"
+          >
+            {formatValue(active ? active.value : total)}
+          </text>
+        </svg>
+      </div>
+
+      <Legend
+        items={arcs.map((arc) => ({
+          key: arc.key,
+          label: arc.label,
+          color: arc.color,
+          detail: formatPercent(arc.share, 1),
+        }))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from "react";
+
+export interface LegendItem {
+  key: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+  /** Extra text after the label, e.g. a share of the total */
+  detail?: string;
+}
+
+interface LegendProps {
+  items: LegendItem[];
+  /** Keys of series currently hidden */
+  hidden?: ReadonlySet<string>;
+  /** Makes entries buttons that show/hide their series */
+  onToggle?: (key: string) => void;
+}
+
+function Swatch({ color, dashed }: Pick<LegendItem, "color" | "dashed">) {
+  return (
+    <svg width="16" height="10" aria-hidden="true" className="shrink-0">
+      <line
+        x1="0"
+        y1="5"
+        x2="16"
+        y2="5"
+        stroke={color}
+        strokeWidth="3"
+        strokeDasharray={dashed ? "4 3" : undefined}
+      />
+    </svg>
+  );
+}
+
+export default function Legend({ items, hidden, onToggle }: LegendProps) {
+  return (
+    <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+      {items.map((item) => {
+        const content = (
+          <>
+            <Swatch color={item.color} dashed={item.dashed} />
+            <span>{item.label}</span>
+            {item.detail && <span className="text-gray-400">{item.detail}</span>}
+          </>
+        );
+        return (
+          <li key={item.key}>
+            {onToggle ? (
+              <button
+                type="button"
+                aria-pressed={!hidden?.has(item.key)}
+                onClick={() => onToggle(item.key)}
+                className={`inline-flex items-center gap-1.5 hover:text-gray-900 ${
+                  hidden?.has(item.key) ? "opacity-40 line-through" : ""
+                }`}
+              >
+                {content}
+              </button>
+            ) : (
+              <span className="inline-flex items-center gap-1.5">{content}</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
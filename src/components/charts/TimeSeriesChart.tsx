@@ -0,0 +1,323 @@
+import React, { useMemo, useState } from "react";
+import { useElementSize } from "../../hooks/useElementSize";
+import { THEME } from "../../util/config";
+import { formatCompactNumber, formatNumber } from "../../util";
+import ChartTooltip from "./ChartTooltip";
+import Legend from "./Legend";
+import {
+  getAreaPath,
+  getLinePath,
+  getNiceTicks,
+  getTickIndices,
+  scaleLinear,
+  ScalePoint,
+} from "./scales";
+
+export type ChartVariant = "line" | "area" | "bar";
+
+/**
+ * One series; values line up with the chart's `x` positions (null = no data)
+ */
+export interface ChartSeries {
+  key: string;
+  label: string;
+  values: Array<number | null>;
+  color?: string;
+  /** Drawn dashed (e.g. a previous-period comparison) */
+  dashed?: boolean;
+}
+
+export interface TimeSeriesChartProps {
+  variant?: ChartVariant;
+  /** Timestamps (ms) of each position */
+  x: number[];
+  series: ChartSeries[];
+  /** Accessible name of the chart */
+  label: string;
+  height?: number;
+  /** Axis label for a position */
+  formatX?: (x: number) => string;
+  /** Tooltip heading for a position; defaults to formatX */
+  formatTooltipX?: (x: number) => string;
+  /** Values in the tooltip */
+  formatY?: (y: number) => string;
+  /** Values on the y axis */
+  formatTick?: (y: number) => string;
+  showLegend?: boolean;
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 48 };
+// Used until the container is measured (and in environments without layout)
+const FALLBACK_WIDTH = 640;
+const MIN_LABEL_SPACING = 80;
+
+const defaultFormatX = (x: number) => new Date(x).toLocaleDateString();
+
+/**
+ * Responsive line, area or grouped bar chart over shared time positions
+ */
+export default function TimeSeriesChart({
+  variant = "line",
+  x,
+  series,
+  label,
+  height = 240,
+  formatX = defaultFormatX,
+  formatTooltipX = formatX,
+  formatY = (y) => formatNumber(y),
+  formatTick = formatCompactNumber,
+  showLegend = true,
+}: TimeSeriesChartProps) {
+  const [containerRef, size] = useElementSize();
+  const [hidden, setHidden] = useState<ReadonlySet<string>>(new Set());
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const width = size.width || FALLBACK_WIDTH;
+  const plotWidth = Math.max(1, width - MARGIN.left - MARGIN.right);
+  const plotHeight = Math.max(1, height - MARGIN.top - MARGIN.bottom);
+  const baseline = MARGIN.top + plotHeight;
+
+  const colored = useMemo(
+    () =>
+      series.map((item, index) => ({
+        ...item,
+        color: item.color || THEME.CHART_COLORS[index % THEME.CHART_COLORS.length],
+      })),
+    [series]
+  );
+  const visible = useMemo(() => colored.filter((item) => !hidden.has(item.key)), [colored, hidden]);
+
+  const ticks = useMemo(() => {
+    const values = visible.flatMap((item) => item.values.filter((v): v is number => v !== null));
+    return getNiceTicks(Math.min(0, ...values), Math.max(0, ...values), 4);
+  }, [visible]);
+  const yScale = scaleLinear([ticks[0], ticks[ticks.length - 1]], [baseline, MARGIN.top]);
+
+  const count = x.length;
+  const band = plotWidth / Math.max(1, count);
+  // Lines span edge to edge; bars sit in the middle of their band
+  const xAt = (index: number) =>
+    variant === "bar" || count < 2
+      ? MARGIN.left + band * (index + 0.5)
+      : MARGIN.left + (index / (count - 1)) * plotWidth;
+  const tickIndices = getTickIndices(count, Math.floor(plotWidth / MIN_LABEL_SPACING));
+
+  const toggleSeries = (key: string) =>
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  const handlePointer = (event: React.MouseEvent<SVGRectElement>) => {
+    const offset = event.clientX - event.currentTarget.getBoundingClientRect().left;
+    const index =
+      variant === "bar" || count < 2
+        ? Math.floor(offset / band)
+        : Math.round((offset / plotWidth) * (count - 1));
+    setActiveIndex(Math.min(count - 1, Math.max(0, index)));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    const moves: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1 };
+    if (event.key === "Home" || event.key === "End") {
+      event.preventDefault();
+      setActiveIndex(event.key === "Home" ? 0 : count - 1);
+    } else if (moves[event.key]) {
+      event.preventDefault();
+      setActiveIndex((current) =>
+        Math.min(count - 1, Math.max(0, (current ?? -1) + moves[event.key]))
+      );
+    } else if (event.key === "Escape") {
+      setActiveIndex(null);
+    }
+  };
+
+  const renderSeries = (item: (typeof visible)[number], seriesIndex: number) => {
+    if (variant === "bar") {
+      const groupWidth = band * 0.8;
+      const barWidth = groupWidth / visible.length;
+      return (
+        <g key={item.key} fill={item.color} opacity={item.dashed ? 0.45 : 1}>
+          {item.values.map((value, index) => {
+            if (value === null) return null;
+            const top = yScale(Math.max(0, value));
+            return (
+              <rect
+                key={index}
+                x={xAt(index) - groupWidth / 2 + seriesIndex * barWidth}
+                y={top}
+                width={Math.max(1, barWidth - 1)}
+                height={Math.max(0, yScale(Math.min(0, value)) - top)}
+              />
+            );
+          })}
+        </g>
+      );
+    }
+
+    const points = item.values.map((value, index): ScalePoint | null =>
+      value === null ? null : [xAt(index), yScale(value)]
+    );
+    return (
+      <g key={item.key}>
+        {variant === "area" && !item.dashed && (
+          <path d={getAreaPath(points, yScale(0))} fill={item.color} opacity={0.15} />
+        )}
+        <path
+          d={getLinePath(points)}
+          fill="none"
+          stroke={item.color}
+          strokeWidth={2}
+          strokeDasharray={item.dashed ? "5 4" : undefined}
+          strokeLinejoin="round"
+        />
+      </g>
+    );
+  };
+
+  const activeX = activeIndex !== null ? xAt(activeIndex) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative w-full">
+        <svg
+          width={width}
+          height={height}
+          role="img"
+          aria-label={label}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setActiveIndex(null)}
+          className="block focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+        >
+          <g className="text-gray-400" fontSize={11}>
+            {ticks.map((tick) => (
+              <g key={tick}>
+                <line
+                  x1={MARGIN.left}
+                  x2={width - MARGIN.right}
+                  y1={yScale(tick)}
+                  y2={yScale(tick)}
+                  stroke="currentColor"
+                  strokeOpacity={tick === 0 ? 0.6 : 0.2}
+                />
+                <text
+                  x={MARGIN.left - 8}
+                  y={yScale(tick)}
+                  textAnchor="end"
+                  dominantBaseline="middle"
+                  fill="currentColor"
+                >
+                  {formatTick(tick)}
+                </text>
+              </g>
+            ))}
+            {tickIndices.map((index) => (
+              <text
+                key={index}
+                x={xAt(index)}
+                y={height - 8}
+                textAnchor={
+                  variant !== "bar" && count > 1 && index === 0
+                    ? "start"
+                    : variant !== "bar" && count > 1 && index === count - 1
+                      ? "end"
+                      : "middle"
+                }
+                fill="currentColor"
+              >
+                {formatX(x[index])}
+              </text>
+            ))}
+          </g>
+
+          {activeIndex !== null && variant === "bar" && (
+            <rect
+              x={activeX - band / 2}
+              y={MARGIN.top}
+              width={band}
+              height={plotHeight}
+              fill="#e5e7eb"
+              opacity={0.6}
+            />
+          )}
+
+          {visible.map(renderSeries)}
+
+          {activeIndex !== null && variant !== "bar" && (
+            <g>
+              <line
+                x1={activeX}
+                x2={activeX}
+                y1={MARGIN.top}
+                y2={baseline}
+                stroke="#9ca3af"
+                strokeDasharray="3 3"
+              />
+              {visible.map((item) =>
+                item.values[activeIndex] === null ||
+                item.values[activeIndex] === undefined ? null : (
+                  <circle
+                    key={item.key}
+                    cx={activeX}
+                    cy={yScale(item.values[activeIndex] as number)}
+                    r={4}
+                    fill="white"
+                    stroke={item.color}
+                    strokeWidth={2}
+                  />
+                )
+              )}
+            </g>
+          )}
+
+          <rect
+            x={MARGIN.left}
+            y={MARGIN.top}
+            width={plotWidth}
+            height={plotHeight}
+            fill="transparent"
+            onMouseMove={handlePointer}
+            onMouseLeave={() => setActiveIndex(null)}
+          />
+        </svg>
+
+        {activeIndex !== null && count > 0 && (
+          <ChartTooltip
+            title={formatTooltipX(x[activeIndex])}
+            x={activeX}
+            y={MARGIN.top}
+            containerWidth={width}
+            rows={visible.map((item) => {
+              const value = item.values[activeIndex];
+              return {
+                key: item.key,
+                label: item.label,
+                color: item.color,
+                value: value === null || value === undefined ? "—" : formatY(value),
+              };
+            })}
+          />
+        )}
+      </div>
+
+      {showLegend && (
+        <Legend
+          items={colored.map(({ key, label: itemLabel, color, dashed }) => ({
+            key,
+            label: itemLabel,
+            color,
+            dashed,
+          }))}
+          hidden={hidden}
+          onToggle={toggleSeries}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { getArcPath, getAreaPath, getLinePath, getNiceTicks, getTickIndices } from "./scales";
+
+describe("chart scales", () => {
+  test("picks round ticks that cover the data", () => {
+    expect(getNiceTicks(0, 950)).toEqual([0, 250, 500, 750, 1000]);
+    expect(getNiceTicks(0, 0.3, 3)).toEqual([0, 0.1, 0.2, 0.3]);
+    expect(getNiceTicks(-40, 90, 4)).toEqual([-50, 0, 50, 100]);
+    expect(getNiceTicks(0, 0)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  test("spreads axis labels and keeps both ends", () => {
+    expect(getTickIndices(5, 10)).toEqual([0, 1, 2, 3, 4]);
+    expect(getTickIndices(31, 6)).toEqual([0, 6, 12, 18, 24, 30]);
+    expect(getTickIndices(0, 6)).toEqual([]);
+  });
+
+  test("builds line, area and arc paths", () => {
+    expect(getLinePath([[0, 10], [5, 20], null, [15, 5]])).toBe("M0,10L5,20M15,5");
+    expect(getAreaPath([[0, 10], [5, 20], null], 30)).toBe("M0,10L5,20L5,30L0,30Z");
+
+    // A single 100% slice still renders as a (nearly) closed ring
+    const ring = getArcPath(50, 50, 50, 30, 0, Math.PI * 2);
+    expect(ring.startsWith("M50,0A50,50 0 1 1 ")).toBe(true);
+    expect(ring.endsWith("Z")).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+// Chart Scales
+// Pure geometry helpers shared by the SVG charts
+
+export type ScalePoint = [number, number];
+
+/**
+ * Maps a numeric domain onto a pixel range
+ */
+export function scaleLinear(
+  [domainMin, domainMax]: [number, number],
+  [rangeMin, rangeMax]: [number, number]
+): (value: number) => number {
+  const span = domainMax - domainMin || 1;
+  return (value) => rangeMin + ((value - domainMin) / span) * (rangeMax - rangeMin);
+}
+
+/**
+ * Round step (1, 2, 2.5 or 5 times a power of ten) splitting `span` into about `count` parts
+ */
+export function getNiceStep(span: number, count: number): number {
+  if (span <= 0 || count <= 0) return 1;
+  const raw = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 2.5, 5, 10].find((factor) => factor * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+/**
+ * Evenly spaced round ticks covering [min, max]; the last tick is the axis maximum
+ */
+export function getNiceTicks(min: number, max: number, count = 4): number[] {
+  if (max <= min) max = min + 1;
+  const step = getNiceStep(max - min, count);
+  const start = Math.floor(min / step) * step;
+  const ticks: number[] = [];
+  for (let tick = start; tick < max + step; tick += step) {
+    // Float steps drift (0.1 + 0.2); round to the step's precision
+    ticks.push(Number(tick.toPrecision(12)));
+    if (tick >= max) break;
+  }
+  return ticks;
+}
+
+/**
+ * Indices of at most `maxTicks` evenly spread labels, always including the first and last
+ */
+export function getTickIndices(length: number, maxTicks: number): number[] {
+  if (length <= 0) return [];
+  if (length <= maxTicks) return Array.from({ length }, (_, index) => index);
+  const every = Math.ceil((length - 1) / Math.max(1, maxTicks - 1));
+  const indices: number[] = [];
+  for (let index = 0; index < length - 1; index += every) {
+    indices.push(index);
+  }
+  // Drop the second-to-last label when it would crowd the last one
+  if (length - 1 - indices[indices.length - 1] < every / 2) indices.pop();
+  return [...indices, length - 1];
+}
+
+/**
+ * SVG path through the points; null values break the line into separate segments
+ */
+export function getLinePath(points: Array<ScalePoint | null>): string {
+  let path = "";
+  let drawing = false;
+  points.forEach((point) => {
+    if (!point) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? "L" : "M"}${point[0]},${point[1]}`;
+    drawing = true;
+  });
+  return path;
+}
+
+/**
+ * Closed SVG path filling the area between each unbroken segment and the baseline
+ */
+export function getAreaPath(points: Array<ScalePoint | null>, baseline: number): string {
+  const segments: ScalePoint[][] = [[]];
+  points.forEach((point) => {
+    if (point) {
+      segments[segments.length - 1].push(point);
+    } else if (segments[segments.length - 1].length) {
+      segments.push([]);
+    }
+  });
+
+  return segments
+    .filter((segment) => segment.length)
+    .map((segment) => {
+      const first = segment[0];
+      const last = segment[segment.length - 1];
+      return `${getLinePath(segment)}L${last[0]},${baseline}L${first[0]},${baseline}Z`;
+    })
+    .join("");
+}
+
+/**
+ * Point on a circle; angles in radians, clockwise from 12 o'clock
+ */
+function polar(cx: number, cy: number, radius: number, angle: number): ScalePoint {
+  return [cx + radius * Math.sin(angle), cy - radius * Math.cos(angle)];
+}
+
+/**
+ * SVG path of a donut segment between two angles (radians, clockwise from 12 o'clock)
+ */
+export function getArcPath(
+  cx: number,
+  cy: number,
+  outerRadius: number,
+  innerRadius: number,
+  startAngle: number,
+  endAngle: number
+): string {
+  // A full-circle arc has identical start and end points and would not render
+  const end = Math.min(endAngle, startAngle + Math.PI * 2 - 0.0001);
+  const largeArc = end - startAngle > Math.PI ? 1 : 0;
+  const [ox1, oy1] = polar(cx, cy, outerRadius, startAngle);
+  const [ox2, oy2] = polar(cx, cy, outerRadius, end);
+  const [ix1, iy1] = polar(cx, cy, innerRadius, end);
+  const [ix2, iy2] = polar(cx, cy, innerRadius, startAngle);
+
+  return [
+    `M${ox1},${oy1}`,
+    `A${outerRadius},${outerRadius} 0 ${largeArc} 1 ${ox2},${oy2}`,
+    `L${ix1},${iy1}`,
+    `A${innerRadius},${innerRadius} 0 ${largeArc} 0 ${ix2},${iy2}`,
+    "Z",
+  ].join("");
+}
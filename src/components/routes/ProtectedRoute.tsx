@@ -0,0 +1,59 @@
+import React, { ReactNode } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "../../context/AuthContext";
+import LoadingScreen from "../LoadingScreen";
+import EmailVerificationBanner from "../EmailVerificationBanner";
+import { ROUTES } from "../../util/config";
+import type { Role } from "../../types";
+
+/**
+ * How to treat signed-in users whose email is not verified yet
+ */
+export type UnverifiedPolicy = "allow" | "warn" | "block";
+
+interface ProtectedRouteProps {
+  children?: ReactNode;
+  unverified?: UnverifiedPolicy;
+  /** Only these roles may enter; others are sent to the dashboard */
+  roles?: readonly Role[];
+}
+
+export default function ProtectedRoute({
+  children,
+  unverified = "warn",
+  roles,
+}: ProtectedRouteProps) {
+  const { status, user } = useAuth();
+  const location = useLocation();
+
+  if (status === "checking") {
+    return <LoadingScreen message="Checking your session..." />;
+  }
+
+  if (status === "unauthenticated") {
+    const next = encodeURIComponent(location.pathname + location.search + location.hash);
+    return <Navigate to={`${ROUTES.LOGIN}?next=${next}`} replace />;
+  }
+
+  if (roles && (!user || !roles.includes(user.role))) {
+    return <Navigate to={ROUTES.DASHBOARD} replace />;
+  }
+
+  const content = children ? <>{children}</> : <Outlet />;
+
+  if (user && !user.emailVerified) {
+    if (unverified === "block") {
+      return <Navigate to={ROUTES.VERIFY_EMAIL_PENDING} replace />;
+    }
+    if (unverified === "warn") {
+      return (
+        <>
+          <EmailVerificationBanner email={user.email} />
+          {content}
+        </>
+      );
+    }
+  }
+
+  return content;
+}
@@ -0,0 +1,30 @@
+import React, { ReactNode } from "react";
+import { Navigate, Outlet, useSearchParams } from "react-router-dom";
+import { useAuth } from "../../context/AuthContext";
+import LoadingScreen from "../LoadingScreen";
+import { ROUTES } from "../../util/config";
+import { getSafeRedirectPath } from "../../util";
+
+export default function PublicOnlyRoute({ children }: { children?: ReactNode }) {
+  const { status, user } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  if (status === "checking") {
+    return <LoadingScreen message="Checking your session..." />;
+  }
+
+  if (status === "authenticated") {
+    if (user && !user.emailVerified) {
+      return <Navigate to={ROUTES.VERIFY_EMAIL_PENDING} replace />;
+    }
+
+    return (
+      <Navigate
+        to={getSafeRedirectPath(searchParams.get("next"), ROUTES.DASHBOARD)}
+        replace
+      />
+    );
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+}
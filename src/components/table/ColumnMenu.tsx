@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, Columns3 } from "lucide-react";
+import type { ColumnDef, ColumnLayout } from "./types";
+import { moveColumn } from "./tableUtils";
+
+interface ColumnMenuProps<T> {
+  columns: ColumnDef<T>[];
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+  onReset: () => void;
+}
+
+/**
+ * Show/hide and reorder columns; closes on Escape or a click outside
+ */
+export default function ColumnMenu<T>({ columns, layout, onChange, onReset }: ColumnMenuProps<T>) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointer = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handlePointer);
+    return () => document.removeEventListener("mousedown", handlePointer);
+  }, [open]);
+
+  const toggleHidden = (id: string) =>
+    onChange({
+      ...layout,
+      hidden: layout.hidden.includes(id)
+        ? layout.hidden.filter((hiddenId) => hiddenId !== id)
+        : [...layout.hidden, id],
+    });
+
+  return (
+    <div
+      ref={menuRef}
+      className="relative"
+      onKeyDown={(event) => {
+        if (event.key === "Escape" && open) {
+          event.stopPropagation();
+          setOpen(false);
+        }
+      }}
+    >
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-haspopup="true"
+        onClick={() => setOpen((current) => !current)}
+        className="inline-flex items-center gap-1.5 border border-gray-300 rounded-md px-3 py-1.5 text-sm hover:bg-gray-50"
+      >
+        <Columns3 className="w-4 h-4" aria-hidden="true" />
+        Columns
+      </button>
+
+      {open && (
+        <div
+          role="group"
+          aria-label="Column settings"
+          className="absolute right-0 z-20 mt-1 w-64 rounded-md border bg-white p-2 shadow-lg"
+        >
+          <ul className="space-y-0.5">
+            {layout.order.map((id, index) => {
+              const column = columns.find((item) => item.id === id);
+              if (!column) return null;
+              return (
+                <li key={id} className="flex items-center gap-2 rounded px-2 py-1 hover:bg-gray-50">
+                  <label className="flex flex-1 items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={!layout.hidden.includes(id)}
+                      disabled={column.hideable === false}
+                      onChange={() => toggleHidden(id)}
+                    />
+                    {column.header}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveColumn(layout, id, -1))}
+                    disabled={index === 0}
+                    aria-label={`Move ${column.header} left`}
+                    className="p-0.5 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveColumn(layout, id, 1))}
+                    disabled={index === layout.order.length - 1}
+                    aria-label={`Move ${column.header} right`}
+                    className="p-0.5 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button
+            type="button"
+            onClick={onReset}
+            className="mt-2 w-full rounded px-2 py-1 text-left text-sm text-blue-600 hover:bg-gray-50"
+          >
+            Reset columns
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React from "react";
+import { act, fireEvent, render, screen, within } from "@testing-library/react";
+import { STORAGE_KEYS } from "../../util/config";
+import DataTable from "./DataTable";
+import type { ColumnDef } from "./types";
+
+interface Item {
+  id: string;
+  name: string;
+  kind: string;
+  size: number;
+}
+
+const COLUMNS: ColumnDef<Item>[] = [
+  { id: "name", header: "Name", sortable: true, filter: { type: "text" } },
+  {
+    id: "kind",
+    header: "Kind",
+    filter: {
+      type: "select",
+      options: [
+        { value: "file", label: "File" },
+        { value: "folder", label: "Folder" },
+      ],
+    },
+  },
+  { id: "size", header: "Size", sortable: true, align: "right" },
+];
+
+const ROWS: Item[] = [
+  { id: "1", name: "beta", kind: "file", size: 20 },
+  { id: "2", name: "alpha", kind: "folder", size: 3 },
+  { id: "3", name: "gamma", kind: "file", size: 100 },
+];
+
+const bodyRows = () => screen.getAllByRole("row").slice(1);
+
+afterEach(() => {
+  jest.useRealTimers();
+  localStorage.clear();
+});
+
+test("sorts, filters and selects rows on the client", () => {
+  jest.useFakeTimers();
+  const onSelectionChange = jest.fn();
+  render(
+    <DataTable
+      label="Items"
+      columns={COLUMNS}
+      rows={ROWS}
+      getRowId={(row) => row.id}
+      selectable
+      onSelectionChange={onSelectionChange}
+    />
+  );
+
+  fireEvent.click(screen.getByRole("button", { name: "Size" }));
+  expect(bodyRows().map((row) => row.textContent)).toEqual([
+    "alphafolder3",
+    "betafile20",
+    "gammafile100",
+  ]);
+  fireEvent.click(screen.getByRole("button", { name: "Size" }));
+  expect(screen.getByRole("columnheader", { name: /size/i })).toHaveAttribute(
+    "aria-sort",
+    "descending"
+  );
+  expect(bodyRows()[0]).toHaveTextContent("gamma");
+
+  fireEvent.change(screen.getByLabelText("Filter by kind"), { target: { value: "file" } });
+  expect(bodyRows()).toHaveLength(2);
+  fireEvent.change(screen.getByLabelText("Filter by name"), { target: { value: "gam" } });
+  expect(bodyRows()).toHaveLength(2);
+  act(() => {
+    jest.advanceTimersByTime(300);
+  });
+  expect(bodyRows()).toHaveLength(1);
+
+  // Select all only covers the rows left after filtering
+  fireEvent.click(screen.getByLabelText("Select all rows"));
+  expect(onSelectionChange).toHaveBeenLastCalledWith(new Set(["3"]));
+  expect(screen.getByText(/1 selected/)).toBeInTheDocument();
+});
+
+test("hides columns and remembers the layout", () => {
+  const { unmount } = render(
+    <DataTable
+      label="Items"
+      columns={COLUMNS}
+      rows={ROWS}
+      getRowId={(row) => row.id}
+      storageKey="items"
+    />
+  );
+
+  fireEvent.click(screen.getByRole("button", { name: /columns/i }));
+  fireEvent.click(screen.getByRole("checkbox", { name: "Kind" }));
+  expect(screen.queryByRole("columnheader", { name: /kind/i })).not.toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.TABLE_LAYOUTS) || "{}").items.hidden).toEqual(
+    ["kind"]
+  );
+  unmount();
+
+  const renderTable = (columns: ColumnDef<Item>[]) => (
+    <DataTable
+      label="Items"
+      columns={columns}
+      rows={ROWS}
+      getRowId={(row) => row.id}
+      storageKey="items"
+    />
+  );
+  const { rerender } = render(renderTable(COLUMNS));
+  expect(screen.getAllByRole("columnheader")).toHaveLength(2);
+
+  // Columns added later join the saved layout
+  rerender(renderTable([...COLUMNS, { id: "id", header: "ID" }]));
+  expect(screen.getAllByRole("columnheader").map((header) => header.textContent)).toEqual([
+    "Name",
+    "Size",
+    "ID",
+  ]);
+});
+
+test("renders only a window of a large list", () => {
+  const rows = Array.from({ length: 10000 }, (_, index) => ({
+    id: String(index),
+    name: `Item ${index}`,
+    kind: "file",
+    size: index,
+  }));
+  render(
+    <DataTable
+      label="Items"
+      columns={COLUMNS}
+      rows={rows}
+      getRowId={(row) => row.id}
+      height={440}
+      rowHeight={44}
+    />
+  );
+
+  const table = screen.getByRole("table", { name: "Items" });
+  const rendered = within(table)
+    .getAllByRole("row")
+    .filter((row) => row.getAttribute("aria-rowindex"));
+  expect(rendered.length).toBeLessThan(50);
+  expect(rendered[0]).toHaveTextContent("Item 0");
+  expect(table).toHaveAttribute("aria-rowcount", "10001");
+});
@@ -0,0 +1,467 @@
+import React, { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { useVirtualRows } from "../../hooks/useVirtualRows";
+import { STORAGE_KEYS, TABLE } from "../../util/config";
+import { debounce, safeJsonParse } from "../../util";
+import ExportMenu, { FetchAllRows } from "../ExportMenu";
+import type { ExportColumn } from "../../util/export";
+import ColumnMenu from "./ColumnMenu";
+import { filterRows, getCellValue, getVisibleColumns, resolveLayout, sortRows } from "./tableUtils";
+import type {
+  ColumnDef,
+  ColumnFilter,
+  ColumnLayout,
+  DataTableMode,
+  FilterState,
+  SortState,
+} from "./types";
+
+export interface DataTableProps<T> {
+  columns: ColumnDef<T>[];
+  rows: T[];
+  getRowId: (row: T) => string;
+  /** Accessible name of the table */
+  label: string;
+  mode?: DataTableMode;
+
+  /** Controlled sort; omit to let the table keep its own */
+  sort?: SortState | null;
+  defaultSort?: SortState | null;
+  onSortChange?: (sort: SortState | null) => void;
+  /** Controlled filters; omit to let the table keep its own */
+  filters?: FilterState;
+  onFiltersChange?: (filters: FilterState) => void;
+
+  selectable?: boolean;
+  /** Controlled selection; omit to let the table keep its own */
+  selectedIds?: ReadonlySet<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
+
+  onRowClick?: (row: T) => void;
+  /** Highlighted row, e.g. the one open in a drawer */
+  activeRowId?: string | null;
+
+  /** Max height of the scroll area (px); enables sticky headers and virtualization */
+  height?: number;
+  rowHeight?: number;
+  /** Persists column order/visibility under this id */
+  storageKey?: string;
+  loading?: boolean;
+  /** Dims the rows, e.g. while the next server page loads */
+  busy?: boolean;
+  emptyMessage?: ReactNode;
+  /** Rendered left of the column menu */
+  toolbar?: ReactNode;
+  /** Adds an Export menu writing the visible columns of the shown (or all) rows */
+  exportOptions?: {
+    filename: string;
+    /** Server tables: loads rows beyond the current page */
+    fetchAll?: FetchAllRows<T>;
+  };
+}
+
+function loadLayout(storageKey?: string): Partial<ColumnLayout> | null {
+  if (!storageKey) return null;
+  const layouts = safeJsonParse<Record<string, ColumnLayout>>(
+    localStorage.getItem(STORAGE_KEYS.TABLE_LAYOUTS) || "{}",
+    {}
+  );
+  return layouts[storageKey] || null;
+}
+
+function saveLayout(storageKey: string, layout: ColumnLayout | null): void {
+  const layouts = safeJsonParse<Record<string, ColumnLayout>>(
+    localStorage.getItem(STORAGE_KEYS.TABLE_LAYOUTS) || "{}",
+    {}
+  );
+  if (layout) {
+    layouts[storageKey] = layout;
+  } else {
+    delete layouts[storageKey];
+  }
+  localStorage.setItem(STORAGE_KEYS.TABLE_LAYOUTS, JSON.stringify(layouts));
+}
+
+/**
+ * Header filter control; text input is debounced so server tables don't refetch per keystroke
+ */
+function FilterControl({
+  label,
+  filter,
+  value,
+  onChange,
+}: {
+  label: string;
+  filter: ColumnFilter;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const emit = useMemo(
+    () => debounce((next: string) => onChangeRef.current(next), TABLE.FILTER_DEBOUNCE),
+    []
+  );
+  // Unmounting (e.g. leaving the page) drops a filter still waiting to be applied
+  useEffect(() => () => emit.cancel(), [emit]);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const className =
+    "mt-1 block w-full border border-gray-300 rounded px-2 py-1 text-xs font-normal";
+
+  if (filter.type === "select") {
+    return (
+      <select
+        aria-label={`Filter by ${label.toLowerCase()}`}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className={className}
+      >
+        <option value="">All</option>
+        {filter.options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type="search"
+      aria-label={`Filter by ${label.toLowerCase()}`}
+      placeholder={filter.placeholder || "Filter"}
+      value={draft}
+      onChange={(event) => {
+        setDraft(event.target.value);
+        emit(event.target.value);
+      }}
+      className={className}
+    />
+  );
+}
+
+function Checkbox({
+  checked,
+  indeterminate = false,
+  label,
+  onChange,
+}: {
+  checked: boolean;
+  indeterminate?: boolean;
+  label: string;
+  onChange: () => void;
+}) {
+  const ref = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate;
+  }, [indeterminate]);
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      aria-label={label}
+      checked={checked}
+      onChange={onChange}
+      onClick={(event) => event.stopPropagation()}
+    />
+  );
+}
+
+const ALIGN_CLASSES = { left: "text-left", center: "text-center", right: "text-right" };
+
+/**
+ * Typed table with sorting, column filters, column layout, selection and row virtualization
+ */
+export default function DataTable<T>({
+  columns,
+  rows,
+  getRowId,
+  label,
+  mode = "client",
+  sort: controlledSort,
+  defaultSort = null,
+  onSortChange,
+  filters: controlledFilters,
+  onFiltersChange,
+  selectable = false,
+  selectedIds: controlledSelection,
+  onSelectionChange,
+  onRowClick,
+  activeRowId,
+  height,
+  rowHeight = TABLE.ROW_HEIGHT,
+  storageKey,
+  loading = false,
+  busy = false,
+  emptyMessage = "No rows to show.",
+  toolbar,
+  exportOptions,
+}: DataTableProps<T>) {
+  const [innerSort, setInnerSort] = useState<SortState | null>(defaultSort);
+  const [innerFilters, setInnerFilters] = useState<FilterState>({});
+  const [innerSelection, setInnerSelection] = useState<Set<string>>(new Set());
+  const [savedLayout, setSavedLayout] = useState<Partial<ColumnLayout> | null>(() =>
+    loadLayout(storageKey)
+  );
+
+  const sort = controlledSort !== undefined ? controlledSort : innerSort;
+  const filters = controlledFilters || innerFilters;
+  const selection = controlledSelection || innerSelection;
+
+  // Columns can change between renders (e.g. permissions); resolved here so the layout keeps step
+  const layout = useMemo(() => resolveLayout(columns, savedLayout), [columns, savedLayout]);
+
+  const updateLayout = (next: ColumnLayout | null) => {
+    setSavedLayout(next);
+    if (storageKey) saveLayout(storageKey, next);
+  };
+
+  const visibleColumns = getVisibleColumns(columns, layout);
+  const exportColumns = visibleColumns.map((column): ExportColumn<T> => ({
+    header: column.header,
+    value: (row) => getCellValue(column, row),
+    type: column.exportType,
+  }));
+
+  const processedRows = useMemo(
+    () => (mode === "server" ? rows : sortRows(filterRows(rows, columns, filters), columns, sort)),
+    [mode, rows, columns, filters, sort]
+  );
+
+  const changeSort = (columnId: string) => {
+    // asc -> desc -> unsorted; server lists always have an order, so they only toggle
+    const next: SortState | null =
+      sort?.columnId !== columnId
+        ? { columnId, direction: "asc" }
+        : sort.direction === "asc" || mode === "server"
+          ? { columnId, direction: sort.direction === "asc" ? "desc" : "asc" }
+          : null;
+    setInnerSort(next);
+    onSortChange?.(next);
+  };
+
+  const changeFilter = (columnId: string, value: string) => {
+    const next = { ...filters };
+    if (value) {
+      next[columnId] = value;
+    } else {
+      delete next[columnId];
+    }
+    setInnerFilters(next);
+    onFiltersChange?.(next);
+  };
+
+  const changeSelection = (next: Set<string>) => {
+    setInnerSelection(next);
+    onSelectionChange?.(next);
+  };
+  const rowIds = processedRows.map(getRowId);
+  const selectedCount = rowIds.filter((id) => selection.has(id)).length;
+  const allSelected = rowIds.length > 0 && selectedCount === rowIds.length;
+  const toggleAll = () => {
+    const next = new Set(selection);
+    rowIds.forEach((id) => (allSelected ? next.delete(id) : next.add(id)));
+    changeSelection(next);
+  };
+  const toggleRow = (id: string) => {
+    const next = new Set(selection);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    changeSelection(next);
+  };
+
+  const virtual = useVirtualRows({
+    count: processedRows.length,
+    rowHeight,
+    viewportHeight: height || 0,
+    overscan: TABLE.OVERSCAN,
+    enabled: !!height && processedRows.length > TABLE.VIRTUALIZE_THRESHOLD,
+  });
+  const renderedRows = processedRows.slice(virtual.start, virtual.end);
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {selectable && selection.size > 0 && (
+          <p className="mr-auto text-sm text-gray-600">
+            {selection.size} selected{" "}
+            <button
+              type="button"
+              onClick={() => changeSelection(new Set())}
+              className="text-blue-600 hover:underline"
+            >
+              Clear
+            </button>
+          </p>
+        )}
+        {toolbar}
+        {exportOptions && (
+          <ExportMenu
+            columns={exportColumns}
+            rows={processedRows}
+            filename={exportOptions.filename}
+            fetchAll={exportOptions.fetchAll}
+            currentLabel={mode === "server" ? "Current page" : "Filtered rows"}
+            disabled={loading}
+          />
+        )}
+        <ColumnMenu
+          columns={columns}
+          layout={layout}
+          onChange={updateLayout}
+          onReset={() => updateLayout(null)}
+        />
+      </div>
+
+      <div
+        ref={virtual.containerRef}
+        className="overflow-auto rounded border border-gray-200"
+        style={height ? { maxHeight: height } : undefined}
+      >
+        <table
+          aria-label={label}
+          aria-rowcount={processedRows.length + 1}
+          aria-busy={loading || busy}
+          className={`min-w-full text-sm ${busy ? "opacity-60" : ""}`}
+        >
+          <thead className="sticky top-0 z-10 bg-gray-50 shadow-[0_1px_0_#e5e7eb]">
+            <tr className="text-left text-gray-500">
+              {selectable && (
+                <th scope="col" className="w-10 px-3 py-2">
+                  <Checkbox
+                    label="Select all rows"
+                    checked={allSelected}
+                    indeterminate={selectedCount > 0 && !allSelected}
+                    onChange={toggleAll}
+                  />
+                </th>
+              )}
+              {visibleColumns.map((column) => {
+                const active = sort?.columnId === column.id;
+                const Icon = !active
+                  ? ArrowUpDown
+                  : sort?.direction === "asc"
+                    ? ArrowUp
+                    : ArrowDown;
+                return (
+                  <th
+                    key={column.id}
+                    scope="col"
+                    style={{ width: column.width }}
+                    aria-sort={
+                      column.sortable
+                        ? active
+                          ? sort?.direction === "asc"
+                            ? "ascending"
+                            : "descending"
+                          : "none"
+                        : undefined
+                    }
+                    className={`px-3 py-2 align-top font-medium ${
+                      ALIGN_CLASSES[column.align || "left"]
+                    }`}
+                  >
+                    {column.sortable ? (
+                      <button
+                        type="button"
+                        onClick={() => changeSort(column.id)}
+                        className="inline-flex items-center gap-1 hover:text-gray-900"
+                      >
+                        {column.header}
+                        <Icon
+                          className={`w-3.5 h-3.5 ${active ? "" : "opacity-40"}`}
+                          aria-hidden="true"
+                        />
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+                    {column.filter && (
+                      <FilterControl
+                        label={column.header}
+                        filter={column.filter}
+                        value={filters[column.id] || ""}
+                        onChange={(value) => changeFilter(column.id, value)}
+                      />
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {virtual.paddingTop > 0 && (
+              <tr aria-hidden="true" style={{ height: virtual.paddingTop }}>
+                <td colSpan={columnCount} />
+              </tr>
+            )}
+            {loading
+              ? Array.from({ length: 5 }, (_, index) => (
+                  <tr key={index} className="border-t animate-pulse" aria-hidden="true">
+                    {Array.from({ length: columnCount }, (_, cell) => (
+                      <td key={cell} className="px-3 py-3">
+                        <div className="h-4 rounded bg-gray-100" />
+                      </td>
+                    ))}
+                  </tr>
+                ))
+              : renderedRows.map((row, index) => {
+                  const id = getRowId(row);
+                  const selected = selection.has(id);
+                  return (
+                    <tr
+                      key={id}
+                      aria-rowindex={virtual.start + index + 2}
+                      aria-selected={selectable ? selected : undefined}
+                      onClick={onRowClick && (() => onRowClick(row))}
+                      style={height ? { height: rowHeight } : undefined}
+                      className={`border-t hover:bg-gray-50 ${onRowClick ? "cursor-pointer" : ""} ${
+                        id === activeRowId || selected ? "bg-blue-50" : ""
+                      }`}
+                    >
+                      {selectable && (
+                        <td className="w-10 px-3">
+                          <Checkbox
+                            label={`Select row ${id}`}
+                            checked={selected}
+                            onChange={() => toggleRow(id)}
+                          />
+                        </td>
+                      )}
+                      {visibleColumns.map((column) => (
+                        <td
+                          key={column.id}
+                          className={`px-3 py-2 ${ALIGN_CLASSES[column.align || "left"]} ${
+                            height ? "whitespace-nowrap overflow-hidden text-ellipsis" : ""
+                          }`}
+                        >
+                          {column.cell ? column.cell(row) : String(getCellValue(column, row) ?? "")}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+            {virtual.paddingBottom > 0 && (
+              <tr aria-hidden="true" style={{ height: virtual.paddingBottom }}>
+                <td colSpan={columnCount} />
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {!loading && processedRows.length === 0 && (
+          <p className="py-8 text-center text-sm text-gray-500">{emptyMessage}</p>
+        )}
+      </div>
+    </div>
+  );
+}
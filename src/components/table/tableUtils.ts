@@ -0,0 +1,96 @@
+// Data Table Helpers
+// Pure sorting, filtering and layout functions behind DataTable
+
+import type { ColumnDef, ColumnLayout, FilterState, SortState } from "./types";
+
+/**
+ * Raw value of a column for a row
+ */
+export function getCellValue<T>(column: ColumnDef<T>, row: T): unknown {
+  const { accessor = column.id as keyof T } = column;
+  return typeof accessor === "function" ? accessor(row) : row[accessor];
+}
+
+const collator = new Intl.Collator("en-US", { numeric: true, sensitivity: "base" });
+
+/**
+ * Orders numbers and dates numerically and everything else as text; empty values sort last
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const empty = (value: unknown) => value === null || value === undefined || value === "";
+  if (empty(a) || empty(b)) return empty(a) === empty(b) ? 0 : empty(a) ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return collator.compare(String(a), String(b));
+}
+
+export function sortRows<T>(rows: T[], columns: ColumnDef<T>[], sort: SortState | null): T[] {
+  const column = sort && columns.find(({ id }) => id === sort.columnId);
+  if (!sort || !column) return rows;
+  const direction = sort.direction === "asc" ? 1 : -1;
+  // Array.prototype.sort is stable, so equal values keep their incoming order
+  return [...rows].sort(
+    (a, b) => compareValues(getCellValue(column, a), getCellValue(column, b)) * direction
+  );
+}
+
+/**
+ * Text filters match case-insensitively anywhere in the value; select filters match exactly
+ */
+export function filterRows<T>(rows: T[], columns: ColumnDef<T>[], filters: FilterState): T[] {
+  const active = columns.filter((column) => column.filter && filters[column.id]);
+  if (!active.length) return rows;
+  return rows.filter((row) =>
+    active.every((column) => {
+      const value = getCellValue(column, row);
+      const text = value === null || value === undefined ? "" : String(value);
+      const filter = filters[column.id];
+      return column.filter?.type === "select"
+        ? text === filter
+        : text.toLowerCase().includes(filter.toLowerCase());
+    })
+  );
+}
+
+/**
+ * Reconciles a saved layout with the current columns (new columns appended, removed ones dropped)
+ */
+export function resolveLayout<T>(
+  columns: ColumnDef<T>[],
+  saved?: Partial<ColumnLayout> | null
+): ColumnLayout {
+  const ids = columns.map(({ id }) => id);
+  const order = (saved?.order || []).filter((id) => ids.includes(id));
+  ids.forEach((id) => {
+    if (!order.includes(id)) order.push(id);
+  });
+  const hidden = saved?.hidden
+    ? saved.hidden.filter((id) => ids.includes(id))
+    : columns.filter((column) => column.defaultHidden).map(({ id }) => id);
+  return { order, hidden };
+}
+
+/**
+ * Columns in display order, without hidden ones
+ */
+export function getVisibleColumns<T>(
+  columns: ColumnDef<T>[],
+  layout: ColumnLayout
+): ColumnDef<T>[] {
+  return layout.order
+    .map((id) => columns.find((column) => column.id === id))
+    .filter((column): column is ColumnDef<T> => !!column && !layout.hidden.includes(column.id));
+}
+
+/**
+ * Moves a column one step left (-1) or right (1)
+ */
+export function moveColumn(layout: ColumnLayout, id: string, offset: -1 | 1): ColumnLayout {
+  const index = layout.order.indexOf(id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= layout.order.length) return layout;
+  const order = [...layout.order];
+  [order[index], order[target]] = [order[target], order[index]];
+  return { ...layout, order };
+}
@@ -0,0 +1,54 @@
+// Data Table Types
+// Column definitions and table state shared by DataTable and its callers
+
+import type { ReactNode } from "react";
+import type { ExportValueType } from "../../util/export";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  columnId: string;
+  direction: SortDirection;
+}
+
+/**
+ * Column id -> filter value; empty values are removed
+ */
+export type FilterState = Record<string, string>;
+
+export type ColumnFilter =
+  | { type: "text"; placeholder?: string }
+  | { type: "select"; options: ReadonlyArray<{ value: string; label: string }> };
+
+export interface ColumnDef<T> {
+  id: string;
+  header: string;
+  /** Raw value used for sorting, filtering and exports; defaults to row[id] */
+  accessor?: keyof T | ((row: T) => unknown);
+  /** Rendered cell; defaults to the accessor value as text */
+  cell?: (row: T) => ReactNode;
+  sortable?: boolean;
+  filter?: ColumnFilter;
+  /** CSS width of the column, e.g. 120 or "30%" */
+  width?: number | string;
+  align?: "left" | "center" | "right";
+  /** Set false to keep the column out of the show/hide menu */
+  hideable?: boolean;
+  defaultHidden?: boolean;
+  /** How the accessor value is written to CSV/XLSX exports; inferred when omitted */
+  exportType?: ExportValueType;
+}
+
+/**
+ * Column order and visibility, persisted per table when a storageKey is given
+ */
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+}
+
+/**
+ * client: DataTable sorts and filters `rows` itself.
+ * server: `rows` is already the requested page; sort/filter changes are only reported.
+ */
+export type DataTableMode = "client" | "server";
@@ -0,0 +1,82 @@
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import * as authService from "../services/authService";
+import { LoginCredentials, RegisterPayload } from "../services/authService";
+import { useProfile, loadProfile, clearProfile } from "../stores/profileStore";
+import { getAuthToken, clearSession } from "../util/authStorage";
+import { ApiError } from "../util/request";
+import { HTTP_STATUS } from "../util/config";
+import { Session, User } from "../types";
+
+export type AuthStatus = "checking" | "authenticated" | "unauthenticated";
+
+interface AuthContextValue {
+  status: AuthStatus;
+  user: User | null;
+  login: (credentials: LoginCredentials) => Promise<Session>;
+  register: (payload: RegisterPayload) => Promise<Session>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { profile } = useProfile();
+  const [checking, setChecking] = useState(() => !!getAuthToken());
+
+  // Validate the stored session against the server once on startup
+  useEffect(() => {
+    if (!getAuthToken()) return;
+
+    loadProfile()
+      .catch((error) => {
+        if (error instanceof ApiError && error.status === HTTP_STATUS.UNAUTHORIZED) {
+          clearSession();
+          clearProfile();
+        }
+      })
+      .finally(() => setChecking(false));
+  }, []);
+
+  const login = useCallback(
+    (credentials: LoginCredentials) => authService.login(credentials),
+    []
+  );
+
+  const register = useCallback(
+    (payload: RegisterPayload) => authService.register(payload),
+    []
+  );
+
+  const logout = useCallback(async () => {
+    await authService.logout();
+  }, []);
+
+  const status: AuthStatus = checking
+    ? "checking"
+    : profile && getAuthToken()
+      ? "authenticated"
+      : "unauthenticated";
+
+  const value = useMemo(
+    () => ({ status, user: profile, login, register, logout }),
+    [status, profile, login, register, logout]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
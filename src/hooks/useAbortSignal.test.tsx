@@ -0,0 +1,42 @@
+import React, { ReactNode } from "react";
+import { act, renderHook } from "@testing-library/react";
+import { MemoryRouter, useNavigate } from "react-router-dom";
+import { useAbortSignal, useRouteAbortSignal } from "./useAbortSignal";
+
+function Router({ children }: { children: ReactNode }) {
+  return <MemoryRouter initialEntries={["/first"]}>{children}</MemoryRouter>;
+}
+
+describe("useAbortSignal", () => {
+  test("aborts on unmount and when the key changes", () => {
+    const { result, rerender, unmount } = renderHook(({ key }) => useAbortSignal(key), {
+      initialProps: { key: "a" },
+    });
+
+    const first = result.current();
+    expect(result.current()).toBe(first);
+
+    rerender({ key: "b" });
+    expect(first.aborted).toBe(true);
+
+    const second = result.current();
+    expect(second.aborted).toBe(false);
+    unmount();
+    expect(second.aborted).toBe(true);
+  });
+
+  test("useRouteAbortSignal aborts when the pathname changes", () => {
+    const { result } = renderHook(
+      () => ({ getSignal: useRouteAbortSignal(), navigate: useNavigate() }),
+      { wrapper: Router }
+    );
+
+    const signal = result.current.getSignal();
+    act(() => result.current.navigate("/first?tab=2"));
+    expect(signal.aborted).toBe(false);
+
+    act(() => result.current.navigate("/second"));
+    expect(signal.aborted).toBe(true);
+    expect(result.current.getSignal().aborted).toBe(false);
+  });
+});
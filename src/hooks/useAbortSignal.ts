@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useLocation } from "react-router-dom";
+
+/**
+ * Returns a getter for an AbortSignal that is aborted on unmount or when `key` changes.
+ * Pass the signal to request() so in-flight calls stop once their result is no longer wanted.
+ */
+export function useAbortSignal(key?: unknown) {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    },
+    [key]
+  );
+
+  // A getter rather than a value so an aborted controller is replaced on the next call
+  return useCallback(() => {
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
+
+/**
+ * Same as useAbortSignal, but also aborts when the route changes
+ */
+export function useRouteAbortSignal() {
+  const { pathname } = useLocation();
+  return useAbortSignal(pathname);
+}
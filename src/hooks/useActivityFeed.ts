@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAbortSignal } from "./useAbortSignal";
+import { activityPageSchema, ActivityEvent, ActivityType, Paginated } from "../types";
+import { ENDPOINTS, PAGINATION } from "../util/config";
+import { ApiError, get, isCancelledError } from "../util/request";
+
+export interface ActivityFilters {
+  actorId?: string;
+  type?: ActivityType;
+}
+
+export interface ActivityFeedState {
+  items: ActivityEvent[];
+  status: "idle" | "loading" | "success" | "error";
+  error: ApiError | null;
+  hasMore: boolean;
+}
+
+export interface UseActivityFeedResult extends ActivityFeedState {
+  /** Appends the next page; ignored while a page is loading or when nothing is left */
+  loadMore: () => void;
+  /** Starts over from the newest event */
+  reload: () => void;
+}
+
+const INITIAL_STATE: ActivityFeedState = {
+  items: [],
+  status: "idle",
+  error: null,
+  hasMore: true,
+};
+
+/**
+ * Pages through DASHBOARD.RECENT_ACTIVITY, newest first. Pages are requested with a
+ * `before`/`beforeId` cursor (the oldest loaded event) so events logged meanwhile don't shift or
+ * repeat entries.
+ */
+export function useActivityFeed(
+  filters: ActivityFilters = {},
+  pageSize: number = PAGINATION.DEFAULT_LIMIT
+): UseActivityFeedResult {
+  const { actorId, type } = filters;
+  const limit = Math.min(PAGINATION.MAX_LIMIT, Math.max(1, pageSize));
+  const filterKey = [actorId, type, limit].join("|");
+  const getSignal = useAbortSignal(filterKey);
+
+  const [state, setState] = useState<ActivityFeedState>(INITIAL_STATE);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Bumped on every reset so responses for an older filter set are dropped
+  const generationRef = useRef(0);
+  const loadingRef = useRef(false);
+
+  const fetchPage = useCallback(
+    async (reset: boolean) => {
+      if (reset) {
+        generationRef.current += 1;
+      } else if (loadingRef.current || !stateRef.current.hasMore) {
+        return;
+      }
+      const generation = generationRef.current;
+      const items = reset ? [] : stateRef.current.items;
+      // The id breaks ties between events sharing the last one's timestamp
+      const last = items.length ? items[items.length - 1] : undefined;
+
+      loadingRef.current = true;
+      setState((current) => ({
+        ...(reset ? INITIAL_STATE : current),
+        status: "loading",
+        error: null,
+      }));
+
+      try {
+        const { data } = await get<Paginated<ActivityEvent>>(ENDPOINTS.DASHBOARD.RECENT_ACTIVITY, {
+          params: { limit, actorId, type, before: last?.createdAt, beforeId: last?.id },
+          schema: activityPageSchema,
+          signal: getSignal(),
+        });
+        if (generation !== generationRef.current) return;
+
+        setState((current) => {
+          const seen = new Set(current.items.map((event) => event.id));
+          return {
+            items: [...current.items, ...data.items.filter((event) => !seen.has(event.id))],
+            status: "success",
+            error: null,
+            hasMore: data.meta.totalPages > 1,
+          };
+        });
+      } catch (error) {
+        if (generation !== generationRef.current || isCancelledError(error)) return;
+        setState((current) => ({
+          ...current,
+          status: "error",
+          error: error instanceof ApiError ? error : new ApiError(String(error), 0),
+        }));
+      } finally {
+        if (generation === generationRef.current) {
+          loadingRef.current = false;
+        }
+      }
+    },
+    [actorId, type, limit, getSignal]
+  );
+
+  useEffect(() => {
+    fetchPage(true);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    fetchPage(false);
+  }, [fetchPage]);
+
+  const reload = useCallback(() => {
+    fetchPage(true);
+  }, [fetchPage]);
+
+  return { ...state, loadMore, reload };
+}
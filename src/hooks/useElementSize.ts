@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Tracks an element's content size, via ResizeObserver where available and window resizes otherwise
+ */
+export function useElementSize<T extends HTMLElement = HTMLDivElement>() {
+  const ref = useRef<T | null>(null);
+  const [size, setSize] = useState<ElementSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const measure = () => {
+      const { width, height } = element.getBoundingClientRect();
+      setSize((current) =>
+        current.width === width && current.height === height ? current : { width, height }
+      );
+    };
+    measure();
+
+    if (typeof ResizeObserver !== "undefined") {
+      const observer = new ResizeObserver(measure);
+      observer.observe(element);
+      return () => observer.disconnect();
+    }
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, []);
+
+  return [ref, size] as const;
+}
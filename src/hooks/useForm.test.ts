@@ -0,0 +1,63 @@
+import { act, renderHook } from "@testing-library/react";
+import { useForm, rules } from "./useForm";
+import { ApiError } from "../util/request";
+
+describe("useForm", () => {
+  test("blocks submit and exposes client errors", async () => {
+    const onSubmit = jest.fn();
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { email: "" },
+        rules: { email: [rules.required("Email is required"), rules.email()] },
+        onSubmit,
+      })
+    );
+
+    expect(result.current.getError("email")).toBeUndefined();
+
+    await act(() => result.current.handleSubmit());
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.getError("email")).toBe("Email is required");
+  });
+
+  test("maps 422 field errors from ApiError and clears them on edit", async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { email: "taken@company.com", name: "Ada" },
+        serverFieldMap: { email_address: "email" },
+        onSubmit: async () => {
+          throw new ApiError("Validation failed", 422, {
+            errors: { email_address: ["Email already in use"] },
+          });
+        },
+      })
+    );
+
+    await act(() => result.current.handleSubmit());
+
+    expect(result.current.getError("email")).toBe("Email already in use");
+    expect(result.current.formError).toBe("");
+
+    act(() => result.current.setValue("email", "new@company.com"));
+
+    expect(result.current.getError("email")).toBeUndefined();
+    expect(result.current.dirty.email).toBe(true);
+    expect(result.current.dirty.name).toBe(false);
+  });
+
+  test("falls back to a form-level error for unmapped failures", async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { email: "a@b.co" },
+        onSubmit: async () => {
+          throw new ApiError("Server exploded", 500);
+        },
+      })
+    );
+
+    await act(() => result.current.handleSubmit());
+
+    expect(result.current.formError).toBe("Server exploded");
+  });
+});
@@ -0,0 +1,206 @@
+import { ChangeEvent, FormEvent, useCallback, useRef, useState } from "react";
+import { ApiError } from "../util/request";
+import { VALIDATION, ERROR_MESSAGES } from "../util/config";
+import { isValidEmail, isValidPhone } from "../util";
+import { evaluatePassword, PasswordContext } from "../util/passwordPolicy";
+
+/**
+ * Returns an error message, or nothing when the value is valid
+ */
+export type Validator<V> = (value: any, values: V) => string | undefined | null;
+
+export type FieldRules<V> = Partial<Record<keyof V, Validator<V>[]>>;
+export type FieldErrors<V> = Partial<Record<keyof V, string>>;
+
+/**
+ * Built-in validators
+ */
+export const rules = {
+  required:
+    <V>(message = "This field is required"): Validator<V> =>
+    (value) =>
+      value === undefined || value === null || String(value).trim() === "" ? message : undefined,
+
+  email:
+    <V>(message = "Enter a valid email address"): Validator<V> =>
+    (value) => {
+      if (!value) return undefined;
+      if (String(value).length > VALIDATION.EMAIL.MAX_LENGTH) {
+        return `Must be at most ${VALIDATION.EMAIL.MAX_LENGTH} characters`;
+      }
+      return isValidEmail(value) ? undefined : message;
+    },
+
+  phone:
+    <V>(message = "Enter a valid phone number"): Validator<V> =>
+    (value) =>
+      !value || isValidPhone(value) ? undefined : message,
+
+  minLength:
+    <V>(min: number, message = `Must be at least ${min} characters`): Validator<V> =>
+    (value) =>
+      !value || String(value).length >= min ? undefined : message,
+
+  maxLength:
+    <V>(max: number, message = `Must be at most ${max} characters`): Validator<V> =>
+    (value) =>
+      !value || String(value).length <= max ? undefined : message,
+
+  pattern:
+    <V>(regex: RegExp, message = ERROR_MESSAGES.VALIDATION_ERROR as string): Validator<V> =>
+    (value) =>
+      !value || regex.test(value) ? undefined : message,
+
+  password:
+    <V>(getContext?: (values: V) => PasswordContext): Validator<V> =>
+    (value, values) =>
+      !value || evaluatePassword(value, getContext?.(values)).valid
+        ? undefined
+        : ERROR_MESSAGES.PASSWORD_POLICY,
+
+  matches:
+    <V>(field: keyof V, message = "Values do not match"): Validator<V> =>
+    (value, values) =>
+      value === values[field] ? undefined : message,
+};
+
+export interface UseFormOptions<V> {
+  initialValues: V;
+  rules?: FieldRules<V>;
+  onSubmit: (values: V) => Promise<void> | void;
+  /** Maps server field names (e.g. snake_case) to form fields */
+  serverFieldMap?: Record<string, keyof V>;
+}
+
+/**
+ * Runs each field's validators and keeps the first failure
+ */
+function validateValues<V>(values: V, fieldRules: FieldRules<V>): FieldErrors<V> {
+  const errors: FieldErrors<V> = {};
+  (Object.keys(fieldRules) as Array<keyof V>).forEach((field) => {
+    for (const validate of fieldRules[field] || []) {
+      const message = validate(values[field], values);
+      if (message) {
+        errors[field] = message;
+        break;
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Form state with client validation and server (422) error mapping
+ */
+export function useForm<V extends Record<string, any>>(options: UseFormOptions<V>) {
+  const { initialValues, rules: fieldRules = {}, onSubmit, serverFieldMap = {} } = options;
+  const initialRef = useRef(initialValues);
+  const [values, setValues] = useState<V>(initialValues);
+  const [touched, setTouched] = useState<Partial<Record<keyof V, boolean>>>({});
+  const [serverErrors, setServerErrors] = useState<FieldErrors<V>>({});
+  const [formError, setFormError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const clientErrors = validateValues(values, fieldRules);
+  const errors: FieldErrors<V> = { ...clientErrors, ...serverErrors };
+  const dirty = (Object.keys(values) as Array<keyof V>).reduce((result, field) => {
+    result[field] = values[field] !== initialRef.current[field];
+    return result;
+  }, {} as Partial<Record<keyof V, boolean>>);
+
+  const setValue = useCallback(<K extends keyof V>(field: K, value: V[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    // A server error no longer applies once the user edits the field
+    setServerErrors((prev) => {
+      if (!prev[field]) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  }, []);
+
+  const setFieldError = useCallback((field: keyof V, message: string) => {
+    setServerErrors((prev) => ({ ...prev, [field]: message }));
+  }, []);
+
+  /**
+   * Error to display: only once the field was touched or a submit was attempted
+   */
+  const getError = (field: keyof V): string | undefined =>
+    touched[field] || submitted ? errors[field] : undefined;
+
+  const register = <K extends keyof V>(field: K) => ({
+    name: field as string,
+    value: values[field] ?? "",
+    onChange: (e: ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+      const target = e.target as HTMLInputElement;
+      setValue(field, (target.type === "checkbox" ? target.checked : target.value) as V[K]);
+    },
+    onBlur: () => setTouched((prev) => ({ ...prev, [field]: true })),
+    "aria-invalid": !!getError(field),
+  });
+
+  /**
+   * Spreads 422 field errors onto fields; anything unmapped becomes the form error
+   */
+  const applyServerError = (error: any) => {
+    if (error instanceof ApiError && error.errors) {
+      const mapped: FieldErrors<V> = {};
+      Object.entries(error.errors).forEach(([key, messages]) => {
+        const field = (serverFieldMap[key] ?? key) as keyof V;
+        if (field in initialRef.current && messages?.length) {
+          mapped[field] = messages[0];
+        }
+      });
+      setServerErrors(mapped);
+      if (Object.keys(mapped).length > 0) return;
+    }
+    setFormError(error?.message || ERROR_MESSAGES.UNKNOWN);
+  };
+
+  const handleSubmit = async (e?: FormEvent) => {
+    e?.preventDefault();
+    setSubmitted(true);
+    setFormError("");
+    setServerErrors({});
+
+    if (Object.keys(validateValues(values, fieldRules)).length > 0) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(values);
+    } catch (error) {
+      applyServerError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const reset = (nextValues: V = initialRef.current) => {
+    initialRef.current = nextValues;
+    setValues(nextValues);
+    setTouched({});
+    setServerErrors({});
+    setFormError("");
+    setSubmitted(false);
+  };
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty: Object.values(dirty).some(Boolean),
+    isValid: Object.keys(clientErrors).length === 0,
+    submitting,
+    formError,
+    setValue,
+    setFieldError,
+    setFormError,
+    getError,
+    register,
+    handleSubmit,
+    reset,
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+
+export interface UseInfiniteScrollOptions {
+  /** Whether there is anything left to load */
+  hasMore: boolean;
+  /** Pause while a page is loading or after an error */
+  disabled?: boolean;
+  /** How far before the sentinel becomes visible to load (IntersectionObserver rootMargin) */
+  rootMargin?: string;
+}
+
+/**
+ * Calls onLoadMore when the returned sentinel element scrolls into view.
+ * Without IntersectionObserver nothing fires, so keep a "Load more" button as a fallback.
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>(
+  onLoadMore: () => void,
+  { hasMore, disabled = false, rootMargin = "0px" }: UseInfiniteScrollOptions
+) {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || disabled || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    // Re-created after every load, so a sentinel still in view triggers the next page too
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, disabled, rootMargin]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,54 @@
+import { useCallback, useRef, useState } from "react";
+import { ApiError } from "../util/request";
+import { MutationOptions, runMutation } from "../util/mutation";
+
+export type MutationStatus = "idle" | "pending" | "success" | "error";
+
+interface MutationState<TData> {
+  status: MutationStatus;
+  data: TData | undefined;
+  error: ApiError | null;
+}
+
+const IDLE_STATE: MutationState<any> = { status: "idle", data: undefined, error: null };
+
+/**
+ * React wrapper around runMutation with pending/error state
+ */
+export function useMutation<TVariables = void, TData = any>(
+  options: MutationOptions<TVariables, TData>
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [state, setState] = useState<MutationState<TData>>(IDLE_STATE);
+
+  const mutateAsync = useCallback(async (variables: TVariables) => {
+    setState({ status: "pending", data: undefined, error: null });
+    try {
+      const data = await runMutation(optionsRef.current, variables);
+      setState({ status: "success", data, error: null });
+      return data;
+    } catch (error: any) {
+      setState({ status: "error", data: undefined, error });
+      throw error;
+    }
+  }, []);
+
+  // Fire-and-forget variant: errors are exposed through state
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => undefined);
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => setState(IDLE_STATE), []);
+
+  return {
+    ...state,
+    isPending: state.status === "pending",
+    mutate,
+    mutateAsync,
+    reset,
+  };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Current time, refreshed every `interval` ms so relative timestamps keep counting up
+ */
+export function useNow(interval: number): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(intervalId);
+  }, [interval]);
+
+  return now;
+}
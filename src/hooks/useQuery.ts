@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { AnySchema } from "ajv";
+import {
+  buildQueryKey,
+  createGetFetcher,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+  QueryParams,
+  QueryState,
+} from "../util/queryCache";
+
+export interface UseQueryOptions {
+  params?: QueryParams;
+  schema?: AnySchema;
+  /** How long data counts as fresh (ms) */
+  staleTime?: number;
+  /** Skip fetching until true (e.g. while a dependency loads) */
+  enabled?: boolean;
+  /** Poll in the background (ms) */
+  refetchInterval?: number;
+  /** While a new key loads, keep showing the last key's data (e.g. when paging) */
+  keepPreviousData?: boolean;
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  key: string;
+  isLoading: boolean;
+  /** `data` belongs to a previous key while the current one loads */
+  isPreviousData: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Cached GET request shared by every component using the same endpoint + params
+ */
+export function useQuery<T = any>(
+  endpoint: string,
+  options: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const { params, schema, staleTime, enabled = true, refetchInterval, keepPreviousData } = options;
+
+  // Params objects are usually recreated each render; memoise on their serialised content
+  const paramsJson = params ? JSON.stringify(params) : "";
+  const stableParams = useMemo<QueryParams | undefined>(
+    () => (paramsJson ? JSON.parse(paramsJson) : undefined),
+    [paramsJson]
+  );
+  const key = useMemo(() => buildQueryKey(endpoint, stableParams), [endpoint, stableParams]);
+  const fetcher = useMemo(
+    () => createGetFetcher<T>(endpoint, stableParams, { schema }),
+    [endpoint, stableParams, schema]
+  );
+
+  const state = useSyncExternalStore(
+    useCallback((listener) => subscribeQuery(key, listener), [key]),
+    () => getQueryState<T>(key)
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchQuery(key, fetcher, { staleTime }).catch(() => undefined);
+  }, [key, fetcher, staleTime, enabled, state.isInvalidated]);
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+    const intervalId = setInterval(() => {
+      fetchQuery(key, fetcher, { force: true }).catch(() => undefined);
+    }, refetchInterval);
+    return () => clearInterval(intervalId);
+  }, [key, fetcher, enabled, refetchInterval]);
+
+  const refetch = useCallback(
+    () => fetchQuery(key, fetcher, { force: true }).catch(() => undefined),
+    [key, fetcher]
+  );
+
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) {
+    previousDataRef.current = state.data;
+  }
+  const isPreviousData =
+    !!keepPreviousData &&
+    state.data === undefined &&
+    state.status !== "error" &&
+    previousDataRef.current !== undefined;
+  const data = isPreviousData ? previousDataRef.current : state.data;
+
+  return {
+    ...state,
+    data,
+    key,
+    isLoading: enabled && data === undefined && state.status !== "error",
+    isPreviousData,
+    refetch,
+  };
+}
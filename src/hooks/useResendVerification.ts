@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { resendVerificationEmail } from "../services/authService";
+import { getVerificationSentAt, setVerificationSentAt } from "../util/authStorage";
+import { ApiError } from "../util/request";
+import { EMAIL_VERIFICATION, HTTP_STATUS, ERROR_MESSAGES } from "../util/config";
+
+/**
+ * Resend-verification action with a client-side cooldown that survives reloads
+ */
+export function useResendVerification() {
+  const [sentAt, setSentAt] = useState(getVerificationSentAt);
+  const [now, setNow] = useState(() => Date.now());
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const secondsRemaining = Math.max(
+    0,
+    Math.ceil((sentAt + EMAIL_VERIFICATION.RESEND_COOLDOWN - now) / 1000)
+  );
+  const coolingDown = secondsRemaining > 0;
+
+  useEffect(() => {
+    if (!coolingDown) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [coolingDown]);
+
+  const resend = useCallback(async () => {
+    if (coolingDown || sending) return;
+
+    setError("");
+    setSent(false);
+    setSending(true);
+    try {
+      await resendVerificationEmail();
+      setSent(true);
+    } catch (err: any) {
+      // The server is rate limiting us too: wait out a full cooldown
+      if (err instanceof ApiError && err.status === HTTP_STATUS.TOO_MANY_REQUESTS) {
+        setVerificationSentAt(Date.now());
+      }
+      setError(err?.message || ERROR_MESSAGES.UNKNOWN);
+    } finally {
+      setSentAt(getVerificationSentAt());
+      setNow(Date.now());
+      setSending(false);
+    }
+  }, [coolingDown, sending]);
+
+  return { resend, sending, sent, error, secondsRemaining };
+}
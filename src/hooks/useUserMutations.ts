@@ -0,0 +1,59 @@
+import { useMutation } from "./useMutation";
+import { ENDPOINTS } from "../util/config";
+import { patch, del } from "../util/request";
+import { Paginated, User, userSchema } from "../types";
+
+/**
+ * Matches cached user lists (with any params)
+ */
+const isUserListKey = (key: string) =>
+  key === ENDPOINTS.USERS.LIST || key.startsWith(`${ENDPOINTS.USERS.LIST}?`);
+
+export interface UpdateUserVariables {
+  id: string;
+  changes: Partial<User>;
+}
+
+/**
+ * Updates a user, patching cached lists and detail instantly
+ */
+export function useUpdateUser() {
+  return useMutation<UpdateUserVariables, User>({
+    mutationFn: ({ id, changes }) =>
+      patch<User>(ENDPOINTS.USERS.UPDATE(id), changes, { schema: userSchema }),
+    optimistic: [
+      {
+        queryKey: isUserListKey,
+        update: (list: Paginated<User>, { id, changes }) => ({
+          ...list,
+          items: list.items.map((user) => (user.id === id ? { ...user, ...changes } : user)),
+        }),
+      },
+      {
+        queryKey: (key) => key.startsWith(`${ENDPOINTS.USERS.LIST}/`),
+        update: (user: User, { id, changes }) => (user.id === id ? { ...user, ...changes } : user),
+      },
+    ],
+    invalidate: (_user, { id }) => [ENDPOINTS.USERS.LIST, ENDPOINTS.USERS.DETAIL(id)],
+  });
+}
+
+/**
+ * Deletes a user, removing it from cached lists instantly
+ */
+export function useDeleteUser() {
+  return useMutation<string, null>({
+    mutationFn: (id) => del<null>(ENDPOINTS.USERS.DELETE(id)),
+    optimistic: [
+      {
+        queryKey: isUserListKey,
+        update: (list: Paginated<User>, id) => {
+          const items = list.items.filter((user) => user.id !== id);
+          const removed = list.items.length - items.length;
+          return { ...list, items, meta: { ...list.meta, total: list.meta.total - removed } };
+        },
+      },
+    ],
+    invalidate: [ENDPOINTS.USERS.LIST],
+  });
+}
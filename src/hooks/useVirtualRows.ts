@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface UseVirtualRowsOptions {
+  count: number;
+  /** Fixed height of every row (px) */
+  rowHeight: number;
+  /** Height of the scroll container, used until it can be measured */
+  viewportHeight: number;
+  /** Extra rows rendered above and below the visible ones */
+  overscan?: number;
+  /** When false every row is rendered */
+  enabled?: boolean;
+}
+
+/**
+ * Window of rows to render inside a scroll container, plus the spacer heights around it
+ */
+export function useVirtualRows<T extends HTMLElement = HTMLDivElement>({
+  count,
+  rowHeight,
+  viewportHeight,
+  overscan = 0,
+  enabled = true,
+}: UseVirtualRowsOptions) {
+  const containerRef = useRef<T | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+    const handleScroll = () => setScrollTop(container.scrollTop);
+    handleScroll();
+    container.addEventListener("scroll", handleScroll, { passive: true });
+    return () => container.removeEventListener("scroll", handleScroll);
+  }, [enabled]);
+
+  if (!enabled) {
+    return { containerRef, start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  const height = containerRef.current?.clientHeight || viewportHeight;
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+  };
+}
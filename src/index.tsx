@@ -3,15 +3,30 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { MOCK_API } from './util/config';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+/**
+ * Installs the in-memory API before the first request when REACT_APP_USE_MOCK_API=true.
+ * Loaded lazily so the mock never ships in a regular build.
+ */
+async function prepareApi() {
+  if (MOCK_API.ENABLED) {
+    const { enableMockApi } = await import('./mocks/mockApi');
+    enableMockApi();
+  }
+}
+
+prepareApi().then(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -0,0 +1,97 @@
+import { createMockApi, MockApi } from "./mockApi";
+import { MOCK_CREDENTIALS } from "./seed";
+import { setTransport } from "../util/transport";
+import { del, get, patch, ApiError } from "../util/request";
+import { ENDPOINTS, STORAGE_KEYS } from "../util/config";
+import { forgotPassword, login, resetPassword } from "../services/authService";
+import { DashboardAnalytics, DashboardStats, Paginated, User } from "../types";
+
+let mockApi: MockApi;
+
+beforeEach(() => {
+  localStorage.clear();
+  mockApi = createMockApi({ latency: 0, errorRate: 0 });
+  setTransport(mockApi.transport);
+});
+
+afterEach(() => {
+  setTransport(null);
+});
+
+describe("mock API", () => {
+  test("signs in with seeded credentials and lists users with filters", async () => {
+    const session = await login(MOCK_CREDENTIALS.ADMIN);
+
+    expect(session.user.role).toBe("admin");
+    expect(localStorage.getItem(STORAGE_KEYS.TOKEN)).toBe(session.token);
+
+    const { data } = await get<Paginated<User>>(ENDPOINTS.USERS.LIST, {
+      params: { role: "manager", limit: 5, sort: "name", order: "asc" },
+    });
+    expect(data.items.length).toBeGreaterThan(0);
+    expect(data.items.every((user) => user.role === "manager")).toBe(true);
+    expect(data.meta).toMatchObject({ page: 1, limit: 5 });
+    expect(data.items).not.toContainEqual(expect.objectContaining({ password: expect.anything() }));
+  });
+
+  test("enforces roles on user updates and deletes", async () => {
+    await login(MOCK_CREDENTIALS.MEMBER);
+
+    await expect(del(ENDPOINTS.USERS.DELETE("u10"))).rejects.toMatchObject({ status: 403 });
+
+    const { data } = await patch<User>(ENDPOINTS.USERS.UPDATE("u3"), { name: "Sam M." });
+    expect(data.name).toBe("Sam M.");
+    expect(mockApi.db.activity[0].type).toBe("user.updated");
+  });
+
+  test("records sent emails in the outbox", async () => {
+    await forgotPassword(MOCK_CREDENTIALS.MEMBER.email);
+
+    const [mail] = mockApi.db.outbox;
+    expect(mail.link).toMatch(/^\/reset-password\?token=/);
+    const token = new URLSearchParams(mail.link.split("?")[1]).get("token") as string;
+    await resetPassword({ token, password: "NewPassword1" });
+    await expect(
+      login({ email: MOCK_CREDENTIALS.MEMBER.email, password: "NewPassword1" })
+    ).resolves.toBeDefined();
+  });
+
+  test("injects failures for matching requests only", async () => {
+    await login(MOCK_CREDENTIALS.ADMIN);
+    mockApi.failNext({ path: ENDPOINTS.DASHBOARD.STATS, status: 503 });
+
+    const error = await get(ENDPOINTS.DASHBOARD.STATS).catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(503);
+
+    const { data } = await get<DashboardStats>(ENDPOINTS.DASHBOARD.STATS, {
+      params: { period: "7d" },
+    });
+    expect(data.kpis.map((kpi) => kpi.key)).toEqual([
+      "revenue",
+      "orders",
+      "averageOrderValue",
+      "newUsers",
+      "conversionRate",
+    ]);
+  });
+
+  test("serves analytics buckets with an aligned previous period", async () => {
+    await login(MOCK_CREDENTIALS.ADMIN);
+
+    const { data } = await get<DashboardAnalytics>(ENDPOINTS.DASHBOARD.ANALYTICS, {
+      params: {
+        from: "2024-03-04T00:00:00.000Z",
+        to: "2024-03-11T00:00:00.000Z",
+        granularity: "day",
+        compare: true,
+      },
+    });
+
+    const revenue = data.series.find((series) => series.key === "revenue")!;
+    expect(revenue.points).toHaveLength(7);
+    expect(revenue.previous).toHaveLength(7);
+    expect(revenue.previous![0].timestamp).toBe("2024-02-26T00:00:00.000Z");
+    expect(data.breakdown.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,887 @@
+// Mock API
+// In-memory backend for every route in ENDPOINTS, plugged in as the request() transport
+
+import {
+  API_URL,
+  ENDPOINTS,
+  ERROR_MESSAGES,
+  HTTP_METHODS,
+  HTTP_STATUS,
+  MOCK_API,
+  PAGINATION,
+  SUCCESS_MESSAGES,
+} from "../util/config";
+import { setTransport, Transport } from "../util/transport";
+import type {
+  ActivityType,
+  AnalyticsPoint,
+  DashboardAnalytics,
+  DashboardStats,
+  Granularity,
+  Kpi,
+  Paginated,
+  Session,
+  StatsPeriod,
+  User,
+} from "../types";
+import { GRANULARITIES, ROLES, USER_STATUSES } from "../types";
+import {
+  createMockDatabase,
+  describeActivity,
+  metricTotal,
+  MockDatabase,
+  MockMetric,
+  MockUser,
+} from "./seed";
+
+export interface MockApiOptions {
+  /** Fixed delay, or a [min, max] range, in ms */
+  latency?: number | [number, number];
+  /** Chance (0-1) that any request fails with a 500 */
+  errorRate?: number;
+  /** Seed for the generated users and activity */
+  seed?: number;
+  /** Also print sent emails (see db.outbox) to the console */
+  logMail?: boolean;
+}
+
+/**
+ * Forces matching requests to fail, e.g. to exercise error states
+ */
+export interface MockFailure {
+  method?: string;
+  /** Path without the API prefix, e.g. "/users" or /^\/users\// */
+  path: string | RegExp;
+  status?: number;
+  message?: string;
+  /** Number of matching requests that fail (default 1) */
+  times?: number;
+}
+
+export interface MockApi {
+  transport: Transport;
+  db: MockDatabase;
+  failNext: (failure: MockFailure) => void;
+  /** Restores the seeded data and clears pending failures */
+  reset: () => void;
+}
+
+interface MockReply {
+  status: number;
+  data?: any;
+  message?: string;
+}
+
+interface MockContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  /** Signed-in user; always set for routes with auth */
+  user: MockUser;
+  token: string | null;
+}
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  auth: boolean;
+  handler: (context: MockContext) => MockReply;
+}
+
+/**
+ * Error response raised by a handler
+ */
+class MockHttpError extends Error {
+  status: number;
+  errors?: Record<string, string[]>;
+
+  constructor(status: number, message: string, errors?: Record<string, string[]>) {
+    super(message);
+    this.name = "MockHttpError";
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const PERIOD_DAYS: Record<Exclude<StatsPeriod, "custom">, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+const MAX_WINDOW_DAYS = 366;
+const MAX_POINTS = 1000;
+
+const ok = (data: any = null, message?: string): MockReply => ({
+  status: HTTP_STATUS.OK,
+  data,
+  message,
+});
+const created = (data: any): MockReply => ({ status: HTTP_STATUS.CREATED, data });
+
+const invalid = (field: string, message: string) =>
+  new MockHttpError(HTTP_STATUS.UNPROCESSABLE_ENTITY, ERROR_MESSAGES.VALIDATION_ERROR, {
+    [field]: [message],
+  });
+
+function toPublicUser({ password, ...user }: MockUser): User {
+  return { ...user };
+}
+
+function listParam(query: URLSearchParams, name: string): string[] {
+  return (query.get(name) || "").split(",").filter(Boolean);
+}
+
+/**
+ * Slices a list like the real API: page/limit params, capped at PAGINATION.MAX_LIMIT
+ */
+function paginate<T>(items: T[], query: URLSearchParams): Paginated<T> {
+  const page = Math.max(1, parseInt(query.get("page") || "", 10) || PAGINATION.DEFAULT_PAGE);
+  const limit = Math.min(
+    PAGINATION.MAX_LIMIT,
+    Math.max(1, parseInt(query.get("limit") || "", 10) || PAGINATION.DEFAULT_LIMIT)
+  );
+  return {
+    items: items.slice((page - 1) * limit, page * limit),
+    meta: {
+      page,
+      limit,
+      total: items.length,
+      totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    },
+  };
+}
+
+function parseTime(value: string | null, field: string): number {
+  const time = value ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw invalid(field, "Enter a valid date.");
+  }
+  return time;
+}
+
+/**
+ * Reporting window: a preset period ending now, or an explicit [from, to) range
+ */
+function resolveWindow(query: URLSearchParams, defaultPeriod: StatsPeriod = "30d") {
+  const period = (query.get("period") ||
+    (query.get("from") ? "custom" : defaultPeriod)) as StatsPeriod;
+
+  if (period === "custom") {
+    const from = parseTime(query.get("from"), "from");
+    const to = parseTime(query.get("to"), "to");
+    if (from >= to) throw invalid("to", "The end date must be after the start date.");
+    if (to - from > MAX_WINDOW_DAYS * DAY) {
+      throw invalid("from", `Choose a range of at most ${MAX_WINDOW_DAYS} days.`);
+    }
+    return { period, from, to };
+  }
+
+  if (!(period in PERIOD_DAYS)) throw invalid("period", "Unknown period.");
+  const to = Math.ceil(Date.now() / HOUR) * HOUR;
+  return { period, from: to - PERIOD_DAYS[period] * DAY, to };
+}
+
+function startOfBucket(time: number, granularity: Granularity): number {
+  const date = new Date(time);
+  switch (granularity) {
+    case "hour":
+      return Math.floor(time / HOUR) * HOUR;
+    case "day":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    case "week":
+      // Weeks start on Monday
+      return (
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) -
+        ((date.getUTCDay() + 6) % 7) * DAY
+      );
+    case "month":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+}
+
+function nextBucket(start: number, granularity: Granularity): number {
+  if (granularity === "month") {
+    const date = new Date(start);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+  return start + { hour: HOUR, day: DAY, week: 7 * DAY }[granularity];
+}
+
+function buildKpis(from: number, to: number): Kpi[] {
+  const span = to - from;
+  const totals = (start: number, end: number) => {
+    const sum = (metric: MockMetric) => metricTotal(metric, start, end);
+    return {
+      sessions: sum("sessions"),
+      orders: sum("orders"),
+      revenue: sum("revenue"),
+      newUsers: sum("newUsers"),
+    };
+  };
+  const current = totals(from, to);
+  const previous = totals(from - span, from);
+  const averageOrderValue = (t: typeof current) =>
+    t.orders ? Math.round((t.revenue / t.orders) * 100) / 100 : 0;
+  const conversionRate = (t: typeof current) =>
+    t.sessions ? Math.round((t.orders / t.sessions) * 10000) / 10000 : 0;
+
+  return [
+    {
+      key: "revenue",
+      label: "Revenue",
+      value: current.revenue,
+      previousValue: previous.revenue,
+      format: "currency",
+      currency: "USD",
+    },
+    {
+      key: "orders",
+      label: "Orders",
+      value: current.orders,
+      previousValue: previous.orders,
+      format: "number",
+    },
+    {
+      key: "averageOrderValue",
+      label: "Avg. Order Value",
+      value: averageOrderValue(current),
+      previousValue: averageOrderValue(previous),
+      format: "currency",
+      currency: "USD",
+    },
+    {
+      key: "newUsers",
+      label: "New Users",
+      value: current.newUsers,
+      previousValue: previous.newUsers,
+      format: "number",
+    },
+    {
+      key: "conversionRate",
+      label: "Conversion Rate",
+      value: conversionRate(current),
+      previousValue: conversionRate(previous),
+      format: "percent",
+    },
+  ];
+}
+
+/**
+ * Waits for the simulated latency; rejects like fetch() when the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  const aborted = () => new DOMException("The operation was aborted.", "AbortError");
+  if (signal?.aborted) return Promise.reject(aborted());
+  if (ms <= 0) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(aborted());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function toResponse(status: number, body: any): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function parseBody(body: any): any {
+  if (typeof body !== "string") return body ?? null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Creates an isolated mock backend
+ */
+export function createMockApi(options: MockApiOptions = {}): MockApi {
+  const {
+    latency = MOCK_API.LATENCY,
+    errorRate = MOCK_API.ERROR_RATE,
+    seed = 42,
+    logMail = false,
+  } = options;
+  const api = {
+    db: createMockDatabase(seed),
+    failures: [] as MockFailure[],
+  };
+  const routes: MockRoute[] = [];
+
+  // ---- helpers bound to the current database ----
+
+  const findUser = (id: string) => {
+    const user = api.db.users.find((item) => item.id === id);
+    if (!user) throw new MockHttpError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.NOT_FOUND);
+    return user;
+  };
+
+  const findUserByEmail = (email: unknown) =>
+    api.db.users.find((user) => user.email.toLowerCase() === String(email || "").toLowerCase());
+
+  const newId = (prefix: string) => `${prefix}${++api.db.nextId}`;
+
+  const issueSession = (user: MockUser): Session => {
+    const token = newId(`mock-access-${user.id}-`);
+    const refreshToken = newId(`mock-refresh-${user.id}-`);
+    api.db.tokens.set(token, user.id);
+    api.db.refreshTokens.set(refreshToken, user.id);
+    return {
+      token,
+      refreshToken,
+      expiresAt: new Date(Date.now() + HOUR).toISOString(),
+      user: toPublicUser(user),
+    };
+  };
+
+  const revokeSessions = (userId: string) => {
+    [api.db.tokens, api.db.refreshTokens].forEach((tokens) => {
+      tokens.forEach((owner, token) => {
+        if (owner === userId) tokens.delete(token);
+      });
+    });
+  };
+
+  const logActivity = (actor: MockUser, type: ActivityType, target = "") => {
+    api.db.activity.unshift({
+      id: newId("a"),
+      type,
+      actor: { id: actor.id, name: actor.name, avatarUrl: actor.avatarUrl },
+      message: describeActivity(type, target),
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  // Stands in for the emails a real backend would send
+  const sendMail = (subject: string, link: string) => {
+    api.db.outbox.push({ subject, link });
+    if (logMail) {
+      console.info(`[mock api] ${subject}: ${window.location.origin}${link}`);
+    }
+  };
+
+  const sendVerification = (user: MockUser) => {
+    const token = newId("verify-");
+    api.db.verifyTokens.set(token, user.id);
+    sendMail(`Verify ${user.email}`, `/verify-email?token=${token}`);
+  };
+
+  const requireRole = (user: MockUser, roles: string[]) => {
+    if (!roles.includes(user.role)) {
+      throw new MockHttpError(HTTP_STATUS.FORBIDDEN, ERROR_MESSAGES.FORBIDDEN);
+    }
+  };
+
+  const route = (
+    method: string,
+    path: string,
+    handler: MockRoute["handler"],
+    auth = true
+  ) => {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_match, key) => {
+      keys.push(key);
+      return "([^/]+)";
+    });
+    routes.push({ method, pattern: new RegExp(`^${source}$`), keys, auth, handler });
+  };
+
+  // ---- auth ----
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.LOGIN,
+    ({ body }) => {
+      const user = findUserByEmail(body?.email);
+      if (!user || user.password !== body?.password) {
+        throw new MockHttpError(HTTP_STATUS.UNAUTHORIZED, "Invalid email or password.");
+      }
+      if (user.status === "suspended") {
+        throw new MockHttpError(HTTP_STATUS.FORBIDDEN, "This account has been suspended.");
+      }
+      logActivity(user, "auth.login");
+      return ok(issueSession(user), SUCCESS_MESSAGES.LOGIN);
+    },
+    false
+  );
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.REGISTER,
+    ({ body }) => {
+      if (!body?.name) throw invalid("name", "Name is required");
+      if (!body?.email) throw invalid("email", "Email is required");
+      if (!body?.password) throw invalid("password", "Password is required");
+      if (findUserByEmail(body.email)) {
+        throw invalid("email", "An account with this email already exists.");
+      }
+
+      const now = new Date().toISOString();
+      const user: MockUser = {
+        id: newId("u"),
+        name: body.name,
+        email: body.email,
+        password: body.password,
+        role: "member",
+        status: "active",
+        emailVerified: false,
+        avatarUrl: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      api.db.users.push(user);
+      sendVerification(user);
+      return created(issueSession(user));
+    },
+    false
+  );
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.LOGOUT,
+    ({ body, token }) => {
+      if (token) api.db.tokens.delete(token);
+      if (body?.refreshToken) api.db.refreshTokens.delete(body.refreshToken);
+      return ok(null, SUCCESS_MESSAGES.LOGOUT);
+    },
+    false
+  );
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.REFRESH,
+    ({ body }) => {
+      const userId = api.db.refreshTokens.get(body?.refreshToken);
+      if (!userId) {
+        throw new MockHttpError(HTTP_STATUS.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+      }
+      // Refresh tokens are single use
+      api.db.refreshTokens.delete(body.refreshToken);
+      const { token, refreshToken, expiresAt } = issueSession(findUser(userId));
+      return ok({ token, refreshToken, expiresAt });
+    },
+    false
+  );
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.VERIFY_EMAIL,
+    ({ body }) => {
+      const userId = api.db.verifyTokens.get(body?.token);
+      if (!userId) {
+        throw new MockHttpError(HTTP_STATUS.GONE, ERROR_MESSAGES.VERIFY_TOKEN_INVALID);
+      }
+      api.db.verifyTokens.delete(body.token);
+      findUser(userId).emailVerified = true;
+      return ok(null, SUCCESS_MESSAGES.EMAIL_VERIFIED);
+    },
+    false
+  );
+
+  route(HTTP_METHODS.POST, ENDPOINTS.AUTH.RESEND_VERIFICATION, ({ user }) => {
+    if (!user.emailVerified) sendVerification(user);
+    return ok(null, SUCCESS_MESSAGES.VERIFICATION_SENT);
+  });
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.FORGOT_PASSWORD,
+    ({ body }) => {
+      // Same answer whether or not the account exists
+      const user = findUserByEmail(body?.email);
+      if (user) {
+        const token = newId("reset-");
+        api.db.resetTokens.set(token, user.id);
+        sendMail(`Reset password for ${user.email}`, `/reset-password?token=${token}`);
+      }
+      return ok(null, SUCCESS_MESSAGES.PASSWORD_RESET);
+    },
+    false
+  );
+
+  route(
+    HTTP_METHODS.POST,
+    ENDPOINTS.AUTH.RESET_PASSWORD,
+    ({ body }) => {
+      const userId = api.db.resetTokens.get(body?.token);
+      if (!userId) {
+        throw new MockHttpError(HTTP_STATUS.GONE, ERROR_MESSAGES.RESET_TOKEN_INVALID);
+      }
+      if (!body?.password) throw invalid("password", "Password is required");
+      api.db.resetTokens.delete(body.token);
+      findUser(userId).password = body.password;
+      revokeSessions(userId);
+      return ok(null, SUCCESS_MESSAGES.PASSWORD_RESET_COMPLETE);
+    },
+    false
+  );
+
+  route(HTTP_METHODS.POST, ENDPOINTS.AUTH.CHANGE_PASSWORD, ({ body, user }) => {
+    if (body?.currentPassword !== user.password) {
+      throw invalid("current_password", "Current password is incorrect");
+    }
+    if (!body?.newPassword || body.newPassword === user.password) {
+      throw invalid("new_password", "Choose a new password");
+    }
+    user.password = body.newPassword;
+    logActivity(user, "auth.password_changed");
+
+    if (body.signOutOtherSessions) {
+      revokeSessions(user.id);
+      const { token, refreshToken } = issueSession(user);
+      return ok({ token, refreshToken }, SUCCESS_MESSAGES.PASSWORD_CHANGED);
+    }
+    return ok(null, SUCCESS_MESSAGES.PASSWORD_CHANGED);
+  });
+
+  // ---- users ----
+
+  route(HTTP_METHODS.GET, ENDPOINTS.USERS.ME, ({ user }) => ok(toPublicUser(user)));
+
+  route(HTTP_METHODS.POST, ENDPOINTS.USERS.AVATAR, ({ body, user }) => {
+    const file = body instanceof FormData ? body.get("avatar") || body.get("file") : null;
+    if (!(file instanceof Blob)) throw invalid("avatar", "Choose an image to upload");
+    user.avatarUrl =
+      typeof URL.createObjectURL === "function"
+        ? URL.createObjectURL(file)
+        : `mock://avatars/${user.id}`;
+    user.updatedAt = new Date().toISOString();
+    return ok(toPublicUser(user), SUCCESS_MESSAGES.UPLOAD);
+  });
+
+  route(HTTP_METHODS.GET, ENDPOINTS.USERS.LIST, ({ query }) => {
+    const search = (query.get("search") || "").trim().toLowerCase();
+    const roles = listParam(query, "role");
+    const statuses = listParam(query, "status");
+    const sort = (query.get("sort") || "createdAt") as keyof User;
+    const direction = query.get("order") === "asc" ? 1 : -1;
+
+    const users = api.db.users
+      .filter(
+        (user) =>
+          (!search ||
+            user.name.toLowerCase().includes(search) ||
+            user.email.toLowerCase().includes(search)) &&
+          (!roles.length || roles.includes(user.role)) &&
+          (!statuses.length || statuses.includes(user.status))
+      )
+      .sort((a, b) => String(a[sort] ?? "").localeCompare(String(b[sort] ?? "")) * direction)
+      .map(toPublicUser);
+
+    return ok(paginate(users, query));
+  });
+
+  route(HTTP_METHODS.GET, ENDPOINTS.USERS.DETAIL(":id"), ({ params }) =>
+    ok(toPublicUser(findUser(params.id)))
+  );
+
+  const updateUser: MockRoute["handler"] = ({ params, body, user }) => {
+    const target = findUser(params.id);
+    const isSelf = target.id === user.id;
+    if (!isSelf) requireRole(user, ["admin", "manager"]);
+    // Only admins change roles and statuses, and managers cannot edit admins
+    if (user.role === "manager" && target.role === "admin" && !isSelf) {
+      throw new MockHttpError(HTTP_STATUS.FORBIDDEN, ERROR_MESSAGES.FORBIDDEN);
+    }
+    if ((body?.role !== undefined || body?.status !== undefined) && user.role !== "admin") {
+      throw new MockHttpError(HTTP_STATUS.FORBIDDEN, ERROR_MESSAGES.FORBIDDEN);
+    }
+
+    const changes = body || {};
+    if (changes.name !== undefined && !String(changes.name).trim()) {
+      throw invalid("name", "Name is required");
+    }
+    if (changes.email !== undefined) {
+      const existing = findUserByEmail(changes.email);
+      if (existing && existing.id !== target.id) {
+        throw invalid("email", "An account with this email already exists.");
+      }
+    }
+    if (changes.role !== undefined && !ROLES.includes(changes.role)) {
+      throw invalid("role", "Unknown role");
+    }
+    if (changes.status !== undefined && !USER_STATUSES.includes(changes.status)) {
+      throw invalid("status", "Unknown status");
+    }
+
+    const fields = ["name", "email", "role", "status", "avatarUrl"] as const;
+    const updates: Partial<Pick<MockUser, (typeof fields)[number]>> = {};
+    fields.forEach((field) => {
+      if (changes[field] !== undefined) updates[field] = changes[field];
+    });
+    Object.assign(target, updates);
+    target.updatedAt = new Date().toISOString();
+    logActivity(user, "user.updated", target.name);
+    return ok(toPublicUser(target), SUCCESS_MESSAGES.UPDATE);
+  };
+  route(HTTP_METHODS.PATCH, ENDPOINTS.USERS.UPDATE(":id"), updateUser);
+  route(HTTP_METHODS.PUT, ENDPOINTS.USERS.UPDATE(":id"), updateUser);
+
+  route(HTTP_METHODS.DELETE, ENDPOINTS.USERS.DELETE(":id"), ({ params, user }) => {
+    requireRole(user, ["admin"]);
+    const target = findUser(params.id);
+    if (target.id === user.id) {
+      throw new MockHttpError(HTTP_STATUS.CONFLICT, "You cannot delete your own account.");
+    }
+    api.db.users = api.db.users.filter((item) => item.id !== target.id);
+    revokeSessions(target.id);
+    logActivity(user, "user.deleted", target.name);
+    return ok(null, SUCCESS_MESSAGES.DELETE);
+  });
+
+  // ---- dashboard ----
+
+  route(HTTP_METHODS.GET, ENDPOINTS.DASHBOARD.STATS, ({ query }) => {
+    const { period, from, to } = resolveWindow(query);
+    const stats: DashboardStats = {
+      period,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      kpis: buildKpis(from, to),
+    };
+    return ok(stats);
+  });
+
+  route(HTTP_METHODS.GET, ENDPOINTS.DASHBOARD.RECENT_ACTIVITY, ({ query }) => {
+    const actors = listParam(query, "actorId");
+    const types = listParam(query, "type");
+    const before = query.get("before") ? parseTime(query.get("before"), "before") : Infinity;
+    // Events sharing the cursor's timestamp are ordered as in the feed: the ones listed after
+    // `beforeId` have not been served yet
+    const beforeId = query.get("beforeId");
+    const cursorIndex = beforeId ? api.db.activity.findIndex(({ id }) => id === beforeId) : -1;
+
+    const events = api.db.activity.filter((event, index) => {
+      const time = Date.parse(event.createdAt);
+      return (
+        (!actors.length || actors.includes(event.actor.id)) &&
+        (!types.length || types.includes(event.type)) &&
+        (time < before || (time === before && cursorIndex >= 0 && index > cursorIndex))
+      );
+    });
+    return ok(paginate(events, query));
+  });
+
+  route(HTTP_METHODS.GET, ENDPOINTS.DASHBOARD.ANALYTICS, ({ query }) => {
+    const { from, to } = resolveWindow(query);
+    const granularity = (query.get("granularity") || "day") as Granularity;
+    if (!GRANULARITIES.includes(granularity)) {
+      throw invalid("granularity", "Unknown granularity.");
+    }
+
+    const buckets: number[] = [];
+    for (let start = startOfBucket(from, granularity); start < to; ) {
+      buckets.push(start);
+      start = nextBucket(start, granularity);
+      if (buckets.length > MAX_POINTS) {
+        throw invalid("granularity", "Too many data points; choose a coarser granularity.");
+      }
+    }
+
+    const compare = query.get("compare") === "true";
+    const span = to - from;
+    const pointsFor = (metric: MockMetric, offset: number): AnalyticsPoint[] =>
+      buckets.map((start) => {
+        const end = nextBucket(start, granularity);
+        return {
+          timestamp: new Date(start - offset).toISOString(),
+          value: metricTotal(metric, Math.max(start, from) - offset, Math.min(end, to) - offset),
+        };
+      });
+
+    const labels: Record<MockMetric, string> = {
+      revenue: "Revenue",
+      orders: "Orders",
+      sessions: "Sessions",
+      newUsers: "New Users",
+    };
+    const series = (Object.keys(labels) as MockMetric[]).map((key) => ({
+      key,
+      label: labels[key],
+      points: pointsFor(key, 0),
+      ...(compare ? { previous: pointsFor(key, span) } : {}),
+    }));
+
+    const revenue = metricTotal("revenue", from, to);
+    const channels: Array<[string, string, number]> = [
+      ["organic", "Organic", 0.42],
+      ["paid", "Paid Ads", 0.27],
+      ["referral", "Referral", 0.18],
+      ["email", "Email", 0.13],
+    ];
+    const analytics: DashboardAnalytics = {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      granularity,
+      series,
+      breakdown: channels.map(([key, label, share]) => ({
+        key,
+        label,
+        value: Math.round(revenue * share * 100) / 100,
+      })),
+    };
+    return ok(analytics);
+  });
+
+  // ---- resumable uploads ----
+
+  const findUpload = (id: string) => {
+    const upload = api.db.uploads.get(id);
+    if (!upload) throw new MockHttpError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.NOT_FOUND);
+    return upload;
+  };
+
+  route(HTTP_METHODS.POST, ENDPOINTS.UPLOADS.CREATE, ({ body }) => {
+    const upload = {
+      id: newId("up"),
+      filename: String(body?.filename || "upload"),
+      size: Number(body?.size) || 0,
+      type: String(body?.type || ""),
+      offset: 0,
+    };
+    api.db.uploads.set(upload.id, upload);
+    return created({ id: upload.id, offset: 0 });
+  });
+
+  route(HTTP_METHODS.GET, ENDPOINTS.UPLOADS.DETAIL(":id"), ({ params }) => {
+    const { id, offset } = findUpload(params.id);
+    return ok({ id, offset });
+  });
+
+  route(HTTP_METHODS.PUT, ENDPOINTS.UPLOADS.CHUNKS(":id"), ({ params, body }) => {
+    const upload = findUpload(params.id);
+    upload.offset = Math.min(upload.size, upload.offset + (body instanceof Blob ? body.size : 0));
+    return ok({ id: upload.id, offset: upload.offset });
+  });
+
+  route(HTTP_METHODS.POST, ENDPOINTS.UPLOADS.COMPLETE(":id"), ({ params }) => {
+    const upload = findUpload(params.id);
+    if (upload.offset < upload.size) {
+      throw new MockHttpError(HTTP_STATUS.CONFLICT, "The upload is not complete yet.");
+    }
+    api.db.uploads.delete(upload.id);
+    const { id, filename, size, type } = upload;
+    return created({ id, filename, size, type });
+  });
+
+  // ---- transport ----
+
+  const apiPath = new URL(API_URL).pathname;
+
+  const takeFailure = (method: string, path: string) => {
+    const index = api.failures.findIndex(
+      (failure) =>
+        (!failure.method || failure.method.toUpperCase() === method) &&
+        (typeof failure.path === "string" ? failure.path === path : failure.path.test(path))
+    );
+    if (index === -1) return null;
+    const failure = api.failures[index];
+    const times = (failure.times ?? 1) - 1;
+    api.failures =
+      times > 0
+        ? api.failures.map((item, i) => (i === index ? { ...item, times } : item))
+        : api.failures.filter((_item, i) => i !== index);
+    return failure;
+  };
+
+  const transport: Transport = async (url, init) => {
+    const method = (init.method || HTTP_METHODS.GET).toUpperCase();
+    const { pathname, searchParams } = new URL(url);
+    const path = pathname.startsWith(apiPath) ? pathname.slice(apiPath.length) : pathname;
+
+    const delay = Array.isArray(latency)
+      ? latency[0] + Math.random() * (latency[1] - latency[0])
+      : latency;
+    await wait(delay, init.signal);
+
+    const failure = takeFailure(method, path);
+    if (failure || Math.random() < errorRate) {
+      const status = failure?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+      return toResponse(status, {
+        success: false,
+        message: failure?.message ?? ERROR_MESSAGES.SERVER_ERROR,
+      });
+    }
+
+    const match = routes
+      .filter((item) => item.method === method)
+      .map((item) => ({ route: item, values: item.pattern.exec(path) }))
+      .find((item) => item.values);
+    if (!match) {
+      return toResponse(HTTP_STATUS.NOT_FOUND, {
+        success: false,
+        message: ERROR_MESSAGES.NOT_FOUND,
+      });
+    }
+
+    try {
+      const authorization = new Headers(init.headers).get("Authorization") || "";
+      const token = authorization.replace(/^Bearer /, "") || null;
+      const userId = token ? api.db.tokens.get(token) : undefined;
+      const user = userId ? api.db.users.find((item) => item.id === userId) : undefined;
+      if (match.route.auth && !user) {
+        throw new MockHttpError(HTTP_STATUS.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      const params: Record<string, string> = {};
+      match.route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match.values![index + 1]);
+      });
+
+      const reply = match.route.handler({
+        params,
+        query: searchParams,
+        body: parseBody(init.body),
+        user: user as MockUser,
+        token,
+      });
+      return toResponse(reply.status, { success: true, data: reply.data, message: reply.message });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return toResponse(error.status, {
+          success: false,
+          message: error.message,
+          errors: error.errors,
+        });
+      }
+      throw error;
+    }
+  };
+
+  return {
+    transport,
+    get db() {
+      return api.db;
+    },
+    failNext(failure) {
+      api.failures = [...api.failures, failure];
+    },
+    reset() {
+      api.db = createMockDatabase(seed);
+      api.failures = [];
+    },
+  };
+}
+
+/**
+ * Routes every request() call through a new mock backend that logs its emails
+ */
+export function enableMockApi(options?: MockApiOptions): MockApi {
+  const mockApi = createMockApi({ logMail: true, ...options });
+  setTransport(mockApi.transport);
+  return mockApi;
+}
@@ -0,0 +1,261 @@
+// Mock Seed Data
+// Deterministic users, activity and metrics for the in-memory mock API
+
+import type { ActivityEvent, ActivityType, Role, User, UserStatus } from "../types";
+
+/**
+ * Stored user; the password never leaves the mock
+ */
+export interface MockUser extends User {
+  password: string;
+}
+
+export interface MockUploadSession {
+  id: string;
+  filename: string;
+  size: number;
+  type: string;
+  offset: number;
+}
+
+/**
+ * An email the backend would have sent (verification, password reset)
+ */
+export interface MockMail {
+  subject: string;
+  /** App path with the token, e.g. /reset-password?token=... */
+  link: string;
+}
+
+/**
+ * Everything the mock API reads and writes
+ */
+export interface MockDatabase {
+  users: MockUser[];
+  activity: ActivityEvent[];
+  /** Access token -> user id */
+  tokens: Map<string, string>;
+  /** Refresh token -> user id */
+  refreshTokens: Map<string, string>;
+  /** Password reset token -> user id */
+  resetTokens: Map<string, string>;
+  /** Email verification token -> user id */
+  verifyTokens: Map<string, string>;
+  uploads: Map<string, MockUploadSession>;
+  /** Sent emails, newest last */
+  outbox: MockMail[];
+  nextId: number;
+}
+
+/**
+ * Seeded accounts for signing in against the mock API
+ */
+export const MOCK_CREDENTIALS = {
+  ADMIN: { email: "admin@company.com", password: "Password1" },
+  MANAGER: { email: "manager@company.com", password: "Password1" },
+  MEMBER: { email: "member@company.com", password: "Password1" },
+} as const;
+
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+const FIRST_NAMES = [
+  "Olivia",
+  "Liam",
+  "Emma",
+  "Noah",
+  "Ava",
+  "Elijah",
+  "Sophia",
+  "Mateo",
+  "Isabella",
+  "Lucas",
+  "Mia",
+  "Kai",
+  "Amara",
+  "Hiro",
+  "Zara",
+  "Diego",
+  "Priya",
+  "Jonas",
+  "Leila",
+  "Tomás",
+];
+const LAST_NAMES = [
+  "Smith",
+  "Garcia",
+  "Chen",
+  "Okafor",
+  "Müller",
+  "Rossi",
+  "Kowalski",
+  "Haddad",
+  "Tanaka",
+  "Johansson",
+  "Silva",
+  "Dubois",
+  "Patel",
+  "Novak",
+  "Kim",
+];
+
+const ACTIVITY_MESSAGES: Record<ActivityType, (target: string) => string> = {
+  "user.created": (target) => `added ${target} to the team`,
+  "user.updated": (target) => `updated ${target}'s profile`,
+  "user.deleted": (target) => `removed ${target}`,
+  "auth.login": () => "signed in",
+  "auth.password_changed": () => "changed their password",
+  "order.created": (target) => `created order #${target}`,
+  "order.refunded": (target) => `refunded order #${target}`,
+};
+
+export const ACTIVITY_TYPES = Object.keys(ACTIVITY_MESSAGES) as ActivityType[];
+
+/**
+ * Small seeded PRNG (mulberry32) so every run sees the same data
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable pseudo-random value in [0, 1) for a pair of integers
+ */
+function hashRandom(a: number, b: number): number {
+  return createRandom(a * 7919 + b * 104729)();
+}
+
+export function describeActivity(type: ActivityType, target: string): string {
+  return ACTIVITY_MESSAGES[type](target);
+}
+
+/**
+ * Builds a fresh database; `now` anchors createdAt dates and the activity history
+ */
+export function createMockDatabase(seed = 42, now = Date.now()): MockDatabase {
+  const random = createRandom(seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+  const users: MockUser[] = [
+    { name: "Alex Admin", email: MOCK_CREDENTIALS.ADMIN.email, role: "admin" as Role },
+    { name: "Morgan Manager", email: MOCK_CREDENTIALS.MANAGER.email, role: "manager" as Role },
+    { name: "Sam Member", email: MOCK_CREDENTIALS.MEMBER.email, role: "member" as Role },
+  ].map((account, index) => ({
+    id: `u${index + 1}`,
+    ...account,
+    password: MOCK_CREDENTIALS.ADMIN.password,
+    status: "active" as UserStatus,
+    emailVerified: true,
+    avatarUrl: null,
+    createdAt: new Date(now - (400 - index) * DAY).toISOString(),
+  }));
+
+  for (let index = users.length; index < 60; index++) {
+    const first = pick(FIRST_NAMES);
+    const last = pick(LAST_NAMES);
+    const createdAt = now - Math.floor(random() * 365 * DAY);
+    users.push({
+      id: `u${index + 1}`,
+      name: `${first} ${last}`,
+      email: `${first}.${last}${index}`
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[^a-z0-9.]/g, "")
+        .concat("@company.com"),
+      password: MOCK_CREDENTIALS.ADMIN.password,
+      role: random() < 0.1 ? "manager" : "member",
+      status: random() < 0.85 ? "active" : pick(["inactive", "suspended"] as UserStatus[]),
+      emailVerified: random() < 0.9,
+      avatarUrl: null,
+      createdAt: new Date(createdAt).toISOString(),
+      updatedAt: new Date(createdAt + Math.floor(random() * 30 * DAY)).toISOString(),
+    });
+  }
+
+  // Newest first, spread over the last 60 days
+  const activity: ActivityEvent[] = [];
+  let time = now - 5 * 60 * 1000;
+  for (let index = 0; index < 300; index++) {
+    const actor = pick(users.slice(0, 20));
+    const type = pick(ACTIVITY_TYPES);
+    const target = type.startsWith("order.")
+      ? String(10000 + Math.floor(random() * 9000))
+      : pick(users).name;
+    activity.push({
+      id: `a${300 - index}`,
+      type,
+      actor: { id: actor.id, name: actor.name, avatarUrl: actor.avatarUrl },
+      message: describeActivity(type, target),
+      createdAt: new Date(time).toISOString(),
+    });
+    time -= Math.floor(random() * 10 * HOUR);
+  }
+
+  return {
+    users,
+    activity,
+    tokens: new Map(),
+    refreshTokens: new Map(),
+    resetTokens: new Map(),
+    verifyTokens: new Map(),
+    uploads: new Map(),
+    outbox: [],
+    nextId: 1000,
+  };
+}
+
+// ============================================================
+// METRICS
+// ============================================================
+
+export type MockMetric = "sessions" | "orders" | "revenue" | "newUsers";
+
+const METRIC_SEEDS: Record<MockMetric, number> = {
+  sessions: 1,
+  orders: 2,
+  revenue: 3,
+  newUsers: 4,
+};
+
+/**
+ * Value of a metric for the hour starting at `hourStart` (ms).
+ * Slow growth, weekend dips, a daily curve and noise, all deterministic.
+ */
+export function metricAt(metric: MockMetric, hourStart: number): number {
+  const hourIndex = Math.floor(hourStart / HOUR);
+  const date = new Date(hourIndex * HOUR);
+  const growth = 1 + 0.0015 * (hourIndex / 24 - 19700);
+  const weekday = date.getUTCDay() === 0 || date.getUTCDay() === 6 ? 0.7 : 1;
+  const daily = 0.4 + 0.6 * Math.sin((Math.PI * ((date.getUTCHours() + 18) % 24)) / 24);
+  const noise = (seed: number) => 0.85 + 0.3 * hashRandom(seed, hourIndex);
+
+  const sessions = 120 * growth * weekday * daily * noise(METRIC_SEEDS.sessions);
+  switch (metric) {
+    case "sessions":
+      return Math.round(sessions);
+    case "orders":
+      return Math.round(sessions * 0.032 * noise(METRIC_SEEDS.orders));
+    case "revenue":
+      return Math.round(sessions * 0.032 * 58 * noise(METRIC_SEEDS.revenue) * 100) / 100;
+    case "newUsers":
+      return Math.round(sessions * 0.01 * noise(METRIC_SEEDS.newUsers));
+  }
+}
+
+/**
+ * Sum of a metric over [from, to)
+ */
+export function metricTotal(metric: MockMetric, from: number, to: number): number {
+  let total = 0;
+  for (let hour = Math.floor(from / HOUR) * HOUR; hour < to; hour += HOUR) {
+    total += metricAt(metric, hour);
+  }
+  return Math.round(total * 100) / 100;
+}
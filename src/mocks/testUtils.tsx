@@ -0,0 +1,61 @@
+// Test Utilities
+// Shared setup for component tests that run against the mock API
+
+import React, { ReactElement } from "react";
+import { render } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { AuthProvider } from "../context/AuthContext";
+import { login } from "../services/authService";
+import { setTransport } from "../util/transport";
+import { removeQueries } from "../util/queryCache";
+import { createMockApi, MockApi, MockApiOptions } from "./mockApi";
+import { MOCK_CREDENTIALS } from "./seed";
+
+export interface SetupMockApiOptions extends MockApiOptions {
+  /** Seeded account to sign in as */
+  as?: keyof typeof MOCK_CREDENTIALS;
+}
+
+/**
+ * Installs a fresh mock API without latency or random failures and signs in
+ */
+export async function setupMockApi({
+  as = "ADMIN",
+  ...options
+}: SetupMockApiOptions = {}): Promise<MockApi> {
+  const mockApi = createMockApi({ latency: 0, errorRate: 0, ...options });
+  setTransport(mockApi.transport);
+  await login(MOCK_CREDENTIALS[as]);
+  return mockApi;
+}
+
+/**
+ * Undoes setupMockApi; meant for afterEach
+ */
+export function resetMockApi(): void {
+  setTransport(null);
+  removeQueries();
+  localStorage.clear();
+}
+
+/**
+ * Renders inside a router and AuthProvider; with `path`, `ui` is mounted as that route
+ */
+export function renderWithProviders(
+  ui: ReactElement,
+  { route = "/", path }: { route?: string; path?: string } = {}
+) {
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <AuthProvider>
+        {path ? (
+          <Routes>
+            <Route path={path} element={ui} />
+          </Routes>
+        ) : (
+          ui
+        )}
+      </AuthProvider>
+    </MemoryRouter>
+  );
+}
@@ -1,33 +1,25 @@
-import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { ROUTES, USER_ADMIN } from '../util';
+import PeriodSelector, { getDefaultPeriod } from './dashboard/PeriodSelector';
+import KpiGrid from './dashboard/KpiGrid';
+import ActivityFeed from './dashboard/ActivityFeed';
+import AnalyticsPanel from './dashboard/AnalyticsPanel';
 
 export default function Dashboard() {
   const navigate = useNavigate();
-  const [user, setUser] = useState<any>(null);
+  const { user, logout } = useAuth();
+  const [period, setPeriod] = useState(getDefaultPeriod);
 
-  useEffect(() => {
-    const token = localStorage.getItem("company_token");
-    const userData = localStorage.getItem("company_user");
-    
-    if (!token) {
-      navigate("/login");
-      return;
-    }
-    
-    if (userData) {
-      setUser(JSON.parse(userData));
-    }
-  }, [navigate]);
-
-  const handleLogout = () => {
-    localStorage.removeItem("company_token");
-    localStorage.removeItem("company_user");
-    navigate("/login");
+  const handleLogout = async () => {
+    await logout();
+    navigate(ROUTES.LOGIN);
   };
 
   return (
     <div className="min-h-screen bg-gray-100 p-8">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-6xl mx-auto space-y-6">
         <div className="bg-white rounded-lg shadow-md p-6">
           <h1 className="text-3xl font-bold mb-4">Dashboard</h1>
           {user && (
@@ -36,13 +28,41 @@ export default function Dashboard() {
               <p className="text-gray-600">{user.email}</p>
             </div>
           )}
-          <button
-            onClick={handleLogout}
-            className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600"
-          >
-            Logout
-          </button>
+          <div className="flex gap-2">
+            <Link
+              to={ROUTES.SETTINGS}
+              className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300"
+            >
+              Settings
+            </Link>
+            {user && (USER_ADMIN.ROLES as readonly string[]).includes(user.role) && (
+              <Link
+                to={ROUTES.USERS}
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300"
+              >
+                Users
+              </Link>
+            )}
+            <button
+              onClick={handleLogout}
+              className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600"
+            >
+              Logout
+            </button>
+          </div>
         </div>
+
+        <section className="space-y-4" aria-labelledby="kpi-heading">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 id="kpi-heading" className="text-xl font-semibold">Overview</h2>
+            <PeriodSelector value={period} onChange={setPeriod} />
+          </div>
+          <KpiGrid period={period} />
+        </section>
+
+        <AnalyticsPanel />
+
+        <ActivityFeed />
       </div>
     </div>
   );
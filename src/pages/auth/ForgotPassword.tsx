@@ -0,0 +1,96 @@
+import React, { useState, FormEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { Mail } from "lucide-react";
+import { motion } from "framer-motion";
+import { forgotPassword } from "../../services/authService";
+import { ROUTES, ERROR_MESSAGES, SUCCESS_MESSAGES } from "../../util/config";
+import { isCancelledError } from "../../util/request";
+import { useRouteAbortSignal } from "../../hooks/useAbortSignal";
+
+export default function ForgotPassword() {
+  const navigate = useNavigate();
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [sent, setSent] = useState(false);
+  const getSignal = useRouteAbortSignal();
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      await forgotPassword(email, getSignal());
+      setSent(true);
+    } catch (err: any) {
+      if (isCancelledError(err)) return;
+      setError(err?.message || ERROR_MESSAGES.UNKNOWN);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md bg-white rounded-2xl shadow p-8"
+      >
+        <h2 className="text-2xl font-semibold mb-2">Forgot Password</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          Enter your email and we'll send you a link to reset your password.
+        </p>
+
+        {sent ? (
+          <div className="text-sm text-green-700 bg-green-50 rounded-md p-4">
+            <p className="font-medium">{SUCCESS_MESSAGES.PASSWORD_RESET}</p>
+            <p className="mt-1">
+              If an account exists for <span className="font-semibold">{email}</span>, the
+              link will arrive in a few minutes.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <label className="block">
+              <span className="text-sm font-medium">Email</span>
+              <div className="relative mt-1">
+                <Mail className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  autoComplete="email"
+                  className="w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-sky-500"
+                  placeholder="you@company.com"
+                />
+              </div>
+            </label>
+
+            {error && <div className="text-red-600 text-sm">{error}</div>}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-sky-600 text-white rounded-md py-2 mt-2 hover:bg-sky-700 disabled:opacity-60"
+            >
+              {loading ? "Sending..." : "Send Reset Link"}
+            </button>
+          </form>
+        )}
+
+        <p className="text-sm text-center mt-4 text-slate-500">
+          Remembered it?{" "}
+          <button
+            onClick={() => navigate(ROUTES.LOGIN)}
+            className="text-sky-600 hover:underline"
+          >
+            Back to sign in
+          </button>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,41 +1,42 @@
-import React, { useState, FormEvent } from "react";
+import React, { useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { User, Mail, Lock } from "lucide-react";
 import { motion } from "framer-motion";
-
-// Fake API (replace later with your backend)
-async function registerApi(name: string, email: string, password: string) {
-  await new Promise((r) => setTimeout(r, 500));
-  if (email.includes("@") && password.length >= 4) {
-    return { ok: true, token: "demo-token-456", name };
-  }
-  return { ok: false, error: "Invalid registration details" };
-}
+import { useAuth } from "../../context/AuthContext";
+import { ROUTES, VALIDATION } from "../../util/config";
+import { evaluatePassword } from "../../util/passwordPolicy";
+import { useForm, rules } from "../../hooks/useForm";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
+import FieldError from "../../components/FieldError";
 
 export default function Register() {
   const navigate = useNavigate();
-  const [name, setName] = useState("");
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState("");
-
-  async function handleSubmit(e: FormEvent) {
-    e.preventDefault();
-    setError("");
-    setLoading(true);
-    const res = await registerApi(name, email, password);
-    setLoading(false);
-
-    if (res.ok) {
-if (res.token) {
-  localStorage.setItem("company_token", res.token);
-}      localStorage.setItem("company_user", JSON.stringify({ name, email }));
-      navigate("/dashboard");
-    } else {
-      setError(res.error || "Registration failed");
-    }
-  }
+  const { register } = useAuth();
+  const form = useForm({
+    initialValues: { name: "", email: "", password: "" },
+    rules: {
+      name: [
+        rules.required("Full name is required"),
+        rules.maxLength(VALIDATION.USERNAME.MAX_LENGTH),
+      ],
+      email: [rules.required("Email is required"), rules.email()],
+      password: [
+        rules.required("Password is required"),
+        rules.password(({ name, email }) => ({ name, email })),
+      ],
+    },
+    onSubmit: async (values) => {
+      const session = await register(values);
+      navigate(session.user.emailVerified ? ROUTES.DASHBOARD : ROUTES.VERIFY_EMAIL_PENDING, {
+        replace: true,
+      });
+    },
+  });
+  const { name, email, password } = form.values;
+  const passwordEvaluation = useMemo(
+    () => evaluatePassword(password, { name, email }),
+    [password, name, email]
+  );
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-100">
@@ -49,21 +50,20 @@ if (res.token) {
           Join your company workspace today.
         </p>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
+        <form onSubmit={form.handleSubmit} noValidate className="space-y-4">
           <label className="block">
             <span className="text-sm font-medium">Full Name</span>
             <div className="relative mt-1">
               <User className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
               <input
                 type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                required
+                {...form.register("name")}
                 autoComplete="name"
                 className="w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-green-500"
                 placeholder="John Doe"
               />
             </div>
+            <FieldError message={form.getError("name")} />
           </label>
 
           <label className="block">
@@ -72,14 +72,13 @@ if (res.token) {
               <Mail className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
               <input
                 type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
+                {...form.register("email")}
                 autoComplete="email"
                 className="w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-green-500"
                 placeholder="you@company.com"
               />
             </div>
+            <FieldError message={form.getError("email")} />
           </label>
 
           <label className="block">
@@ -88,31 +87,32 @@ if (res.token) {
               <Lock className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
               <input
                 type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
+                {...form.register("password")}
                 autoComplete="new-password"
                 className="w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-green-500"
                 placeholder="••••••••"
               />
             </div>
+            <FieldError message={form.getError("password")} />
           </label>
 
-          {error && <div className="text-red-600 text-sm">{error}</div>}
+          {password && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
+
+          {form.formError && <div className="text-red-600 text-sm">{form.formError}</div>}
 
           <button
             type="submit"
-            disabled={loading}
+            disabled={form.submitting}
             className="w-full bg-green-600 text-white rounded-md py-2 mt-2 hover:bg-green-700 disabled:opacity-60"
           >
-            {loading ? "Creating account..." : "Create Account"}
+            {form.submitting ? "Creating account..." : "Create Account"}
           </button>
         </form>
 
         <p className="text-sm text-center mt-4 text-slate-500">
           Already have an account?{" "}
           <button
-            onClick={() => navigate("/login")}
+            onClick={() => navigate(ROUTES.LOGIN)}
             className="text-green-600 hover:underline"
           >
             Sign in
@@ -0,0 +1,164 @@
+import React, { useMemo, useState, FormEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { Lock } from "lucide-react";
+import { motion } from "framer-motion";
+import { resetPassword } from "../../services/authService";
+import { ApiError, isCancelledError } from "../../util/request";
+import {
+  ROUTES,
+  HTTP_STATUS,
+  ERROR_MESSAGES,
+  SUCCESS_MESSAGES,
+} from "../../util/config";
+import { getQueryParam } from "../../util";
+import { evaluatePassword } from "../../util/passwordPolicy";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
+import { useRouteAbortSignal } from "../../hooks/useAbortSignal";
+
+/**
+ * Whether the server rejected the reset token itself (expired, used or unknown);
+ * other 400s (e.g. password policy) belong to the form
+ */
+function isTokenError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  if (error.errors?.token) return true;
+  return error.status === HTTP_STATUS.NOT_FOUND || error.status === HTTP_STATUS.GONE;
+}
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const [token] = useState(() => getQueryParam("token"));
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [tokenInvalid, setTokenInvalid] = useState(!token);
+  const [done, setDone] = useState(false);
+  const passwordEvaluation = useMemo(() => evaluatePassword(password), [password]);
+  const getSignal = useRouteAbortSignal();
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+
+    if (!passwordEvaluation.valid) {
+      setError(ERROR_MESSAGES.PASSWORD_POLICY);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await resetPassword({ token: token as string, password }, getSignal());
+      setDone(true);
+    } catch (err: any) {
+      if (isCancelledError(err)) return;
+      if (isTokenError(err)) {
+        setTokenInvalid(true);
+      } else {
+        setError(err?.errors?.password?.[0] || err?.message || ERROR_MESSAGES.UNKNOWN);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function renderBody() {
+    if (done) {
+      return (
+        <div className="space-y-4">
+          <div className="text-sm text-green-700 bg-green-50 rounded-md p-4">
+            {SUCCESS_MESSAGES.PASSWORD_RESET_COMPLETE}
+          </div>
+          <button
+            onClick={() => navigate(ROUTES.LOGIN, { replace: true })}
+            className="w-full bg-sky-600 text-white rounded-md py-2 hover:bg-sky-700"
+          >
+            Sign In
+          </button>
+        </div>
+      );
+    }
+
+    if (tokenInvalid) {
+      return (
+        <div className="space-y-4">
+          <div className="text-sm text-red-700 bg-red-50 rounded-md p-4">
+            {ERROR_MESSAGES.RESET_TOKEN_INVALID}
+          </div>
+          <button
+            onClick={() => navigate(ROUTES.FORGOT_PASSWORD, { replace: true })}
+            className="w-full bg-sky-600 text-white rounded-md py-2 hover:bg-sky-700"
+          >
+            Request a new link
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <label className="block">
+          <span className="text-sm font-medium">New Password</span>
+          <div className="relative mt-1">
+            <Lock className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoComplete="new-password"
+              className="w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-sky-500"
+              placeholder="••••••••"
+            />
+          </div>
+        </label>
+
+        {password && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
+
+        <label className="block">
+          <span className="text-sm font-medium">Confirm Password</span>
+          <div className="relative mt-1">
+            <Lock className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              autoComplete="new-password"
+              className="w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-sky-500"
+              placeholder="••••••••"
+            />
+          </div>
+        </label>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-sky-600 text-white rounded-md py-2 mt-2 hover:bg-sky-700 disabled:opacity-60"
+        >
+          {loading ? "Resetting..." : "Reset Password"}
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md bg-white rounded-2xl shadow p-8"
+      >
+        <h2 className="text-2xl font-semibold mb-2">Reset Password</h2>
+        <p className="text-sm text-slate-500 mb-6">Choose a new password for your account.</p>
+        {renderBody()}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { verifyEmail } from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import { ROUTES, ERROR_MESSAGES, SUCCESS_MESSAGES } from "../../util/config";
+import { getQueryParam } from "../../util";
+
+type VerifyState = "verifying" | "verified" | "failed";
+
+export default function VerifyEmail() {
+  const navigate = useNavigate();
+  const { status } = useAuth();
+  const [state, setState] = useState<VerifyState>("verifying");
+  const [error, setError] = useState("");
+  // Tokens are single-use: never submit twice (e.g. StrictMode re-running effects)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    const token = getQueryParam("token");
+    if (!token) {
+      setError(ERROR_MESSAGES.VERIFY_TOKEN_INVALID);
+      setState("failed");
+      return;
+    }
+
+    verifyEmail(token)
+      .then(() => setState("verified"))
+      .catch((err: any) => {
+        setError(err?.errors?.token?.[0] || ERROR_MESSAGES.VERIFY_TOKEN_INVALID);
+        setState("failed");
+      });
+  }, []);
+
+  const signedIn = status === "authenticated";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md bg-white rounded-2xl shadow p-8"
+      >
+        <h2 className="text-2xl font-semibold mb-6">Email Verification</h2>
+
+        {state === "verifying" && (
+          <p className="text-sm text-slate-500">Verifying your email address...</p>
+        )}
+
+        {state === "verified" && (
+          <div className="space-y-4">
+            <div className="text-sm text-green-700 bg-green-50 rounded-md p-4">
+              {SUCCESS_MESSAGES.EMAIL_VERIFIED}
+            </div>
+            <button
+              onClick={() => navigate(signedIn ? ROUTES.DASHBOARD : ROUTES.LOGIN, { replace: true })}
+              className="w-full bg-sky-600 text-white rounded-md py-2 hover:bg-sky-700"
+            >
+              {signedIn ? "Continue to dashboard" : "Sign In"}
+            </button>
+          </div>
+        )}
+
+        {state === "failed" && (
+          <div className="space-y-4">
+            <div className="text-sm text-red-700 bg-red-50 rounded-md p-4">{error}</div>
+            <button
+              onClick={() =>
+                navigate(signedIn ? ROUTES.VERIFY_EMAIL_PENDING : ROUTES.LOGIN, { replace: true })
+              }
+              className="w-full bg-sky-600 text-white rounded-md py-2 hover:bg-sky-700"
+            >
+              {signedIn ? "Send a new link" : "Sign in to request a new link"}
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
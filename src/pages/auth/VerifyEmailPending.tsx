@@ -0,0 +1,66 @@
+import React from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { MailCheck } from "lucide-react";
+import { motion } from "framer-motion";
+import { useAuth } from "../../context/AuthContext";
+import { useResendVerification } from "../../hooks/useResendVerification";
+import { ROUTES, SUCCESS_MESSAGES } from "../../util/config";
+
+export default function VerifyEmailPending() {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const { resend, sending, sent, error, secondsRemaining } = useResendVerification();
+
+  if (user?.emailVerified) {
+    return <Navigate to={ROUTES.DASHBOARD} replace />;
+  }
+
+  const handleLogout = async () => {
+    await logout();
+    navigate(ROUTES.LOGIN);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md bg-white rounded-2xl shadow p-8 text-center"
+      >
+        <MailCheck className="w-12 h-12 text-green-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-semibold mb-2">Check your inbox</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          We sent a verification link to{" "}
+          <span className="font-semibold text-slate-700">{user?.email}</span>. Click it to
+          activate your account.
+        </p>
+
+        {sent && (
+          <div className="text-sm text-green-700 bg-green-50 rounded-md p-3 mb-4">
+            {SUCCESS_MESSAGES.VERIFICATION_SENT}
+          </div>
+        )}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        <button
+          onClick={resend}
+          disabled={sending || secondsRemaining > 0}
+          className="w-full bg-green-600 text-white rounded-md py-2 hover:bg-green-700 disabled:opacity-60"
+        >
+          {sending
+            ? "Sending..."
+            : secondsRemaining > 0
+              ? `Resend email in ${secondsRemaining}s`
+              : "Resend verification email"}
+        </button>
+
+        <p className="text-sm text-center mt-4 text-slate-500">
+          Wrong account?{" "}
+          <button onClick={handleLogout} className="text-green-600 hover:underline">
+            Sign out
+          </button>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
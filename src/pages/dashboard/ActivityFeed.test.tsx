@@ -0,0 +1,52 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { resetMockApi, setupMockApi } from "../../mocks/testUtils";
+import ActivityFeed from "./ActivityFeed";
+
+afterEach(resetMockApi);
+
+test("loads older pages, groups them by day and filters by event type", async () => {
+  const mockApi = await setupMockApi();
+  // login() itself is logged, so the newest event is today's sign-in
+  const newest = mockApi.db.activity[0];
+
+  render(<ActivityFeed pageSize={5} />);
+
+  const today = await screen.findByRole("region", { name: "Today" });
+  expect(within(today).getAllByRole("listitem")[0]).toHaveTextContent(newest.message);
+  expect(within(today).getAllByText("just now")[0]).toBeInTheDocument();
+  expect(screen.getAllByRole("listitem")).toHaveLength(5);
+
+  fireEvent.click(await screen.findByRole("button", { name: /load more/i }));
+  await waitFor(() => expect(screen.getAllByRole("listitem")).toHaveLength(10));
+  const messages = mockApi.db.activity.slice(0, 10).map((event) => event.message);
+  screen.getAllByRole("listitem").forEach((item, index) => {
+    expect(item).toHaveTextContent(messages[index]);
+  });
+
+  fireEvent.change(screen.getByLabelText(/filter by event type/i), {
+    target: { value: "order.refunded" },
+  });
+  await waitFor(() =>
+    screen
+      .getAllByRole("listitem")
+      .forEach((item) => expect(item).toHaveTextContent(/refunded order/))
+  );
+});
+
+test("keeps events that share a timestamp across a page boundary", async () => {
+  const mockApi = await setupMockApi();
+  const { activity } = mockApi.db;
+  activity.slice(2, 8).forEach((event) => {
+    event.createdAt = activity[2].createdAt;
+  });
+
+  render(<ActivityFeed pageSize={5} />);
+
+  await screen.findByRole("button", { name: /load more/i });
+  fireEvent.click(screen.getByRole("button", { name: /load more/i }));
+  await waitFor(() => expect(screen.getAllByRole("listitem")).toHaveLength(10));
+  screen.getAllByRole("listitem").forEach((item, index) => {
+    expect(item).toHaveTextContent(activity[index].message);
+  });
+});
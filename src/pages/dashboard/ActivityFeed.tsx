@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useActivityFeed } from "../../hooks/useActivityFeed";
+import { useInfiniteScroll } from "../../hooks/useInfiniteScroll";
+import { useNow } from "../../hooks/useNow";
+import { ACTIVITY_TYPES, ActivityEvent, ActivityType } from "../../types";
+import { DASHBOARD } from "../../util/config";
+import { toDateInputValue } from "../../util/dateRange";
+import { formatDate, formatDateTime, getRelativeTime, groupBy } from "../../util";
+
+const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  "user.created": "User created",
+  "user.updated": "User updated",
+  "user.deleted": "User deleted",
+  "auth.login": "Sign-in",
+  "auth.password_changed": "Password changed",
+  "order.created": "Order created",
+  "order.refunded": "Order refunded",
+};
+
+interface ActivityFeedProps {
+  pageSize?: number;
+}
+
+function getDayLabel(day: string, now: number): string {
+  const today = new Date(now);
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  if (day === toDateInputValue(today)) return "Today";
+  if (day === toDateInputValue(yesterday)) return "Yesterday";
+  const [year, month, date] = day.split("-").map(Number);
+  return formatDate(new Date(year, month - 1, date), { weekday: "long" });
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join("");
+}
+
+function ActivityItem({ event }: { event: ActivityEvent }) {
+  return (
+    <li className="flex gap-3 py-3">
+      {event.actor.avatarUrl ? (
+        <img src={event.actor.avatarUrl} alt="" className="w-8 h-8 rounded-full shrink-0" />
+      ) : (
+        <span
+          className="flex items-center justify-center w-8 h-8 rounded-full shrink-0 bg-blue-100 text-xs font-semibold text-blue-700"
+          aria-hidden="true"
+        >
+          {getInitials(event.actor.name)}
+        </span>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-gray-800">
+          <span className="font-medium">{event.actor.name}</span> {event.message}
+        </p>
+        <time
+          dateTime={event.createdAt}
+          title={formatDateTime(event.createdAt)}
+          className="text-xs text-gray-500"
+        >
+          {getRelativeTime(event.createdAt)}
+        </time>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Recent activity, grouped by day, loading older events as the list is scrolled
+ */
+export default function ActivityFeed({ pageSize }: ActivityFeedProps) {
+  const [actorId, setActorId] = useState("");
+  const [type, setType] = useState<ActivityType | "">("");
+  const feed = useActivityFeed(
+    { actorId: actorId || undefined, type: type || undefined },
+    pageSize
+  );
+  // Re-renders the relative timestamps and day headings as time passes
+  const now = useNow(DASHBOARD.RELATIVE_TIME_TICK);
+
+  // Actors seen so far; kept when filtering so the current choice stays selectable
+  const [actors, setActors] = useState<Record<string, string>>({});
+  useEffect(() => {
+    const unseen = feed.items.filter((event) => !(event.actor.id in actors));
+    if (unseen.length) {
+      setActors((current) => {
+        const next = { ...current };
+        unseen.forEach((event) => {
+          next[event.actor.id] = event.actor.name;
+        });
+        return next;
+      });
+    }
+  }, [feed.items, actors]);
+
+  const groups = useMemo(() => {
+    const byDay = groupBy(
+      feed.items.map((event) => ({
+        event,
+        day: toDateInputValue(new Date(event.createdAt)),
+      })),
+      "day"
+    );
+    // Object key order follows insertion, i.e. newest day first
+    return Object.entries(byDay).map(([day, entries]) => ({
+      day,
+      events: entries.map((entry) => entry.event),
+    }));
+  }, [feed.items]);
+
+  const isLoading = feed.status === "loading";
+  const sentinelRef = useInfiniteScroll(feed.loadMore, {
+    hasMore: feed.hasMore,
+    disabled: isLoading || feed.status === "error",
+    rootMargin: DASHBOARD.INFINITE_SCROLL_MARGIN,
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h2 className="text-xl font-semibold">Recent activity</h2>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <select
+            aria-label="Filter by person"
+            value={actorId}
+            onChange={(event) => setActorId(event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">Everyone</option>
+            {Object.entries(actors)
+              .sort(([, a], [, b]) => a.localeCompare(b))
+              .map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+          </select>
+          <select
+            aria-label="Filter by event type"
+            value={type}
+            onChange={(event) => setType(event.target.value as ActivityType | "")}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">All events</option>
+            {ACTIVITY_TYPES.map((activityType) => (
+              <option key={activityType} value={activityType}>
+                {ACTIVITY_TYPE_LABELS[activityType]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="max-h-[32rem] overflow-y-auto" aria-busy={isLoading}>
+        {groups.map(({ day, events }) => (
+          <section key={day} aria-label={getDayLabel(day, now)}>
+            <h3 className="sticky top-0 bg-white py-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+              {getDayLabel(day, now)}
+            </h3>
+            <ul className="divide-y divide-gray-100">
+              {events.map((event) => (
+                <ActivityItem key={event.id} event={event} />
+              ))}
+            </ul>
+          </section>
+        ))}
+
+        {feed.status === "success" && feed.items.length === 0 && (
+          <p className="py-6 text-center text-sm text-gray-500">
+            No activity matches these filters.
+          </p>
+        )}
+
+        {feed.status === "error" && (
+          <div className="flex items-center gap-2 py-3 text-sm text-red-600" role="alert">
+            <AlertCircle className="w-4 h-4 shrink-0" aria-hidden="true" />
+            <span>{feed.error?.message}</span>
+            <button
+              type="button"
+              onClick={feed.loadMore}
+              className="font-medium text-blue-600 hover:underline"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {isLoading && (
+          <p className="flex items-center justify-center gap-2 py-3 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+            Loading activity…
+          </p>
+        )}
+
+        <div ref={sentinelRef} />
+        {feed.hasMore && feed.status === "success" && (
+          <button
+            type="button"
+            onClick={feed.loadMore}
+            className="w-full py-2 text-sm font-medium text-blue-600 hover:bg-gray-50 rounded"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { resetMockApi, setupMockApi } from "../../mocks/testUtils";
+import AnalyticsPanel from "./AnalyticsPanel";
+
+afterEach(resetMockApi);
+
+test("charts analytics with previous-period comparison and granularity limits", async () => {
+  await setupMockApi();
+
+  render(<AnalyticsPanel />);
+
+  const chart = await screen.findByRole("img", { name: "Revenue over time" });
+  expect(screen.getByRole("img", { name: "Revenue by channel" })).toBeInTheDocument();
+  expect(screen.getByText("Organic")).toBeInTheDocument();
+
+  fireEvent.keyDown(chart, { key: "End" });
+  const tooltip = screen.getByRole("tooltip");
+  expect(within(tooltip).getByText("Revenue")).toBeInTheDocument();
+  expect(within(tooltip).getByText(/^\$[\d,]+\.\d{2}$/)).toBeInTheDocument();
+
+  fireEvent.click(screen.getByLabelText(/compare to previous period/i));
+  expect(
+    await screen.findByRole("button", { name: /revenue \(previous period\)/i })
+  ).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole("button", { name: "90 days" }));
+  const granularity = screen.getByLabelText("Granularity") as HTMLSelectElement;
+  expect(within(granularity).getByRole("option", { name: "Hourly" })).toBeDisabled();
+  fireEvent.change(granularity, { target: { value: "week" } });
+  expect(await screen.findByRole("img", { name: "Revenue over time" })).toBeInTheDocument();
+  expect(granularity.value).toBe("week");
+});
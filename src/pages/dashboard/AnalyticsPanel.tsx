@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { useQuery } from "../../hooks/useQuery";
+import { dashboardAnalyticsSchema, DashboardAnalytics, Granularity } from "../../types";
+import { DASHBOARD, ENDPOINTS, THEME } from "../../util/config";
+import { formatCurrency, formatDate, formatNumber } from "../../util";
+import TimeSeriesChart, {
+  ChartSeries,
+  ChartVariant,
+} from "../../components/charts/TimeSeriesChart";
+import DonutChart from "../../components/charts/DonutChart";
+import ExportMenu from "../../components/ExportMenu";
+import type { ExportColumn } from "../../util/export";
+import PeriodSelector, {
+  getDefaultPeriod,
+  getPeriodDays,
+  getPeriodParams,
+  PeriodValue,
+} from "./PeriodSelector";
+
+type MetricKey = (typeof DASHBOARD.METRICS)[number]["key"];
+
+const VARIANTS: Array<{ value: ChartVariant; label: string }> = [
+  { value: "line", label: "Line" },
+  { value: "area", label: "Area" },
+  { value: "bar", label: "Bar" },
+];
+
+// Day and coarser buckets start at UTC midnight, so they are labelled in UTC
+const AXIS_FORMATS: Record<Granularity, Intl.DateTimeFormatOptions> = {
+  hour: { year: undefined, hour: "numeric" },
+  day: { year: undefined, timeZone: "UTC" },
+  week: { year: undefined, timeZone: "UTC" },
+  month: { day: undefined, timeZone: "UTC" },
+};
+const TOOLTIP_FORMATS: Record<Granularity, Intl.DateTimeFormatOptions> = {
+  hour: { weekday: "short", hour: "numeric", minute: "2-digit" },
+  day: { weekday: "short", timeZone: "UTC" },
+  week: { timeZone: "UTC" },
+  month: { month: "long", day: undefined, timeZone: "UTC" },
+};
+
+/**
+ * Granularities that keep the window within DASHBOARD.MAX_CHART_POINTS buckets
+ */
+function getAllowedGranularities(days: number): Granularity[] {
+  return DASHBOARD.GRANULARITIES.filter(
+    ({ hours }) => Math.ceil((days * 24) / hours) <= DASHBOARD.MAX_CHART_POINTS
+  ).map(({ value }) => value);
+}
+
+interface ExportPoint {
+  timestamp: string;
+  value: number;
+  previous?: number;
+}
+
+function ChartSkeleton() {
+  return <div className="h-60 rounded bg-gray-100 animate-pulse" aria-label="Loading chart" />;
+}
+
+/**
+ * DASHBOARD.ANALYTICS over a chosen window: one metric over time plus revenue by channel
+ */
+export default function AnalyticsPanel() {
+  const [period, setPeriod] = useState<PeriodValue>(getDefaultPeriod);
+  const [chosenGranularity, setGranularity] = useState<Granularity>(DASHBOARD.DEFAULT_GRANULARITY);
+  const [compare, setCompare] = useState(false);
+  const [metric, setMetric] = useState<MetricKey>(DASHBOARD.METRICS[0].key);
+  const [variant, setVariant] = useState<ChartVariant>("line");
+
+  // A long window falls back to the next granularity the API accepts
+  const allowed = getAllowedGranularities(getPeriodDays(period));
+  const order = DASHBOARD.GRANULARITIES.map(({ value }) => value as Granularity);
+  const granularity = allowed.includes(chosenGranularity)
+    ? chosenGranularity
+    : allowed.find((value) => order.indexOf(value) > order.indexOf(chosenGranularity)) ||
+      allowed[allowed.length - 1];
+
+  const { data, error, isLoading, status, refetch } = useQuery<DashboardAnalytics>(
+    ENDPOINTS.DASHBOARD.ANALYTICS,
+    {
+      params: { ...getPeriodParams(period), granularity, compare: compare || undefined },
+      schema: dashboardAnalyticsSchema,
+      staleTime: DASHBOARD.STATS_STALE_TIME,
+    }
+  );
+
+  const metricConfig = DASHBOARD.METRICS.find(({ key }) => key === metric) || DASHBOARD.METRICS[0];
+  const formatValue = (value: number) =>
+    metricConfig.format === "currency" ? formatCurrency(value) : formatNumber(value);
+
+  const chart = useMemo(() => {
+    const series = data?.series.find(({ key }) => key === metric);
+    if (!series) return null;
+    const chartSeries: ChartSeries[] = [
+      { key: series.key, label: series.label, values: series.points.map(({ value }) => value) },
+    ];
+    if (series.previous) {
+      chartSeries.push({
+        key: `${series.key}-previous`,
+        label: `${series.label} (previous period)`,
+        values: series.previous.map(({ value }) => value),
+        color: THEME.CHART_MUTED_COLOR,
+        dashed: true,
+      });
+    }
+    return { x: series.points.map(({ timestamp }) => Date.parse(timestamp)), series: chartSeries };
+  }, [data, metric]);
+
+  const chartGranularity = data?.granularity || granularity;
+
+  const exportData = useMemo(() => {
+    const series = data?.series.find(({ key }) => key === metric);
+    if (!series) return { rows: [], columns: [] };
+    const rows: ExportPoint[] = series.points.map(({ timestamp, value }, index) => ({
+      timestamp,
+      value,
+      previous: series.previous?.[index]?.value,
+    }));
+    const columns: ExportColumn<ExportPoint>[] = [
+      {
+        header: "Period",
+        value: (point) => point.timestamp,
+        type: "date",
+        dateOptions: TOOLTIP_FORMATS[data?.granularity || DASHBOARD.DEFAULT_GRANULARITY],
+      },
+      { header: series.label, value: (point) => point.value, type: "number" },
+    ];
+    if (series.previous) {
+      columns.push({
+        header: `${series.label} (previous period)`,
+        value: (point) => point.previous,
+        type: "number",
+      });
+    }
+    return { rows, columns };
+  }, [data, metric]);
+
+  return (
+    <section className="bg-white rounded-lg shadow-md p-5 space-y-4" aria-labelledby="analytics">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 id="analytics" className="text-xl font-semibold">
+          Analytics
+        </h2>
+        <PeriodSelector value={period} onChange={setPeriod} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <div className="flex gap-1" role="tablist" aria-label="Metric">
+          {DASHBOARD.METRICS.map(({ key, label }) => (
+            <button
+              key={key}
+              type="button"
+              role="tab"
+              aria-selected={metric === key}
+              onClick={() => setMetric(key)}
+              className={`px-3 py-1.5 rounded ${
+                metric === key ? "bg-blue-50 text-blue-700 font-medium" : "text-gray-600"
+              } hover:bg-gray-100`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <select
+          aria-label="Granularity"
+          value={granularity}
+          onChange={(event) => setGranularity(event.target.value as Granularity)}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          {DASHBOARD.GRANULARITIES.map(({ value, label }) => (
+            <option key={value} value={value} disabled={!allowed.includes(value)}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={compare}
+            onChange={(event) => setCompare(event.target.checked)}
+          />
+          Compare to previous period
+        </label>
+
+        <div className="inline-flex ml-auto" role="group" aria-label="Chart type">
+          {VARIANTS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={variant === value}
+              onClick={() => setVariant(value)}
+              className={`px-2.5 py-1 border border-gray-300 first:rounded-l last:rounded-r -ml-px ${
+                variant === value ? "bg-gray-800 text-white border-gray-800" : "bg-white"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <ExportMenu
+          columns={exportData.columns}
+          rows={exportData.rows}
+          filename={`analytics-${metric}-${chartGranularity}`}
+          disabled={!exportData.rows.length}
+        />
+      </div>
+
+      {status === "error" && !data ? (
+        <div className="flex items-center gap-2 text-sm text-red-600" role="alert">
+          <AlertCircle className="w-4 h-4 shrink-0" aria-hidden="true" />
+          <span>{error?.message}</span>
+          <button
+            type="button"
+            onClick={() => refetch()}
+            className="font-medium text-blue-600 hover:underline"
+          >
+            Retry
+          </button>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 min-w-0">
+            {isLoading || !chart ? (
+              <ChartSkeleton />
+            ) : (
+              <TimeSeriesChart
+                variant={variant}
+                x={chart.x}
+                series={chart.series}
+                label={`${metricConfig.label} over time`}
+                formatX={(x) => formatDate(new Date(x), AXIS_FORMATS[chartGranularity])}
+                formatTooltipX={(x) =>
+                  (chartGranularity === "week" ? "Week of " : "") +
+                  formatDate(new Date(x), TOOLTIP_FORMATS[chartGranularity])
+                }
+                formatY={formatValue}
+              />
+            )}
+          </div>
+          <div className="min-w-0">
+            <h3 className="mb-3 text-sm font-medium text-gray-500">Revenue by channel</h3>
+            {isLoading || !data ? (
+              <ChartSkeleton />
+            ) : (
+              <DonutChart
+                slices={data.breakdown}
+                label="Revenue by channel"
+                formatValue={(value) => formatCurrency(value)}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,97 @@
+import React from "react";
+import { AlertCircle, ArrowDownRight, ArrowUpRight, Minus } from "lucide-react";
+import type { Kpi } from "../../types";
+import { formatCurrency, formatNumber, formatPercent } from "../../util";
+
+interface KpiCardProps {
+  metric: string;
+  label: string;
+  /** Missing when the stats failed or didn't include this metric */
+  kpi?: Kpi;
+  loading: boolean;
+  /** Message of the failed stats request */
+  error?: string;
+  onRetry: () => void;
+}
+
+export function formatKpiValue(kpi: Kpi): string {
+  switch (kpi.format) {
+    case "currency":
+      return formatCurrency(kpi.value, kpi.currency);
+    case "percent":
+      return formatPercent(kpi.value);
+    default:
+      return formatNumber(kpi.value);
+  }
+}
+
+/**
+ * Relative change against the previous window; null when there is nothing to compare with
+ */
+export function getKpiDelta(kpi: Kpi): number | null {
+  if (!kpi.previousValue) return null;
+  return (kpi.value - kpi.previousValue) / Math.abs(kpi.previousValue);
+}
+
+function Delta({ delta }: { delta: number | null }) {
+  if (delta === null || Math.abs(delta) < 0.0005) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-gray-500">
+        <Minus className="w-4 h-4" aria-hidden="true" />
+        {delta === null ? "No prior data" : "No change"}
+      </span>
+    );
+  }
+
+  const isUp = delta > 0;
+  const Icon = isUp ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-sm font-medium ${
+        isUp ? "text-green-600" : "text-red-600"
+      }`}
+    >
+      <Icon className="w-4 h-4" aria-hidden="true" />
+      <span className="sr-only">{isUp ? "Up" : "Down"}</span>
+      {formatPercent(Math.abs(delta), 1)}
+      <span className="font-normal text-gray-500">vs previous period</span>
+    </span>
+  );
+}
+
+/**
+ * One KPI; a metric missing from the stats gets its own error instead of blanking the grid
+ */
+export default function KpiCard({ metric, label, kpi, loading, error, onRetry }: KpiCardProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-5" aria-busy={loading} data-testid={metric}>
+      <p className="text-sm font-medium text-gray-500">{kpi?.label ?? label}</p>
+
+      {loading ? (
+        <div className="mt-3 space-y-2 animate-pulse" aria-label={`Loading ${label}`}>
+          <div className="h-7 w-2/3 rounded bg-gray-200" />
+          <div className="h-4 w-1/2 rounded bg-gray-100" />
+        </div>
+      ) : !kpi ? (
+        <div className="mt-3 space-y-2" role="alert">
+          <p className="flex items-center gap-1.5 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 shrink-0" aria-hidden="true" />
+            {error || `${label} is unavailable.`}
+          </p>
+          <button
+            type="button"
+            onClick={onRetry}
+            className="text-sm font-medium text-blue-600 hover:underline"
+          >
+            Retry
+          </button>
+        </div>
+      ) : (
+        <div className="mt-2 space-y-1">
+          <p className="text-2xl font-semibold text-gray-900">{formatKpiValue(kpi)}</p>
+          <Delta delta={getKpiDelta(kpi)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { resetMockApi, setupMockApi } from "../../mocks/testUtils";
+import { setTransport } from "../../util/transport";
+import { ENDPOINTS } from "../../util/config";
+import { getLastDaysRange } from "../../util/dateRange";
+import KpiGrid from "./KpiGrid";
+
+afterEach(resetMockApi);
+
+test("loads every KPI from one stats request and retries after a failure", async () => {
+  const mockApi = await setupMockApi();
+  const statsUrls: string[] = [];
+  setTransport((url, init) => {
+    if (url.includes(ENDPOINTS.DASHBOARD.STATS)) statsUrls.push(url);
+    return mockApi.transport(url, init);
+  });
+  mockApi.failNext({ path: ENDPOINTS.DASHBOARD.STATS });
+
+  render(<KpiGrid period={{ period: "7d", range: getLastDaysRange(7) }} />);
+
+  const orders = screen.getByTestId("orders");
+  expect(await within(orders).findByRole("alert")).toHaveTextContent(/try again/i);
+  expect(within(screen.getByTestId("revenue")).getByRole("alert")).toBeInTheDocument();
+
+  fireEvent.click(within(orders).getByRole("button", { name: /retry/i }));
+  expect(await within(orders).findByText(/^[\d,]+$/)).toBeInTheDocument();
+
+  const revenue = screen.getByTestId("revenue");
+  expect(within(revenue).getByText(/^\$[\d,]+\.\d{2}$/)).toBeInTheDocument();
+  expect(within(revenue).getByText(/vs previous period|no change/i)).toBeInTheDocument();
+  expect(
+    within(screen.getByTestId("conversionRate")).getByText(/^\d+\.\d{2}%$/)
+  ).toBeInTheDocument();
+  expect(statsUrls).toHaveLength(2);
+  expect(statsUrls[0]).not.toContain("metrics=");
+});
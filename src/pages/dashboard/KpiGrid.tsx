@@ -0,0 +1,37 @@
+import React from "react";
+import { useQuery } from "../../hooks/useQuery";
+import { dashboardStatsSchema, DashboardStats } from "../../types";
+import { DASHBOARD, ENDPOINTS } from "../../util/config";
+import KpiCard from "./KpiCard";
+import { getPeriodParams, PeriodValue } from "./PeriodSelector";
+
+interface KpiGridProps {
+  period: PeriodValue;
+}
+
+/**
+ * DASHBOARD.KPIS for a period, from a single stats request
+ */
+export default function KpiGrid({ period }: KpiGridProps) {
+  const { data, error, isLoading, refetch } = useQuery<DashboardStats>(ENDPOINTS.DASHBOARD.STATS, {
+    params: getPeriodParams(period),
+    schema: dashboardStatsSchema,
+    staleTime: DASHBOARD.STATS_STALE_TIME,
+  });
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+      {DASHBOARD.KPIS.map(({ key, label }) => (
+        <KpiCard
+          key={key}
+          metric={key}
+          label={label}
+          kpi={data?.kpis.find((item) => item.key === key)}
+          loading={isLoading}
+          error={data ? undefined : error?.message}
+          onRetry={() => refetch()}
+        />
+      ))}
+    </div>
+  );
+}
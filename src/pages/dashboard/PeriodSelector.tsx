@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import type { StatsPeriod } from "../../types";
+import { DASHBOARD } from "../../util/config";
+import {
+  DateRange,
+  getLastDaysRange,
+  getRangeDays,
+  isValidRange,
+  toRangeParams,
+} from "../../util/dateRange";
+
+/**
+ * Selected reporting window; `range` is only sent for custom periods
+ */
+export interface PeriodValue {
+  period: StatsPeriod;
+  range: DateRange;
+}
+
+interface PeriodSelectorProps {
+  value: PeriodValue;
+  onChange: (value: PeriodValue) => void;
+}
+
+/**
+ * DASHBOARD.DEFAULT_PERIOD, with the matching range prefilled for switching to custom
+ */
+export function getDefaultPeriod(): PeriodValue {
+  const option =
+    DASHBOARD.PERIODS.find(({ value }) => value === DASHBOARD.DEFAULT_PERIOD) ||
+    DASHBOARD.PERIODS[0];
+  return { period: option.value, range: getLastDaysRange(option.days || 30) };
+}
+
+/**
+ * Length of the selected window in days
+ */
+export function getPeriodDays({ period, range }: PeriodValue): number {
+  if (period === "custom") return getRangeDays(range);
+  return DASHBOARD.PERIODS.find(({ value }) => value === period)?.days || 0;
+}
+
+/**
+ * Query params selecting the window on DASHBOARD endpoints
+ */
+export function getPeriodParams({ period, range }: PeriodValue) {
+  return period === "custom" ? { period, ...toRangeParams(range) } : { period };
+}
+
+function getRangeError(range: DateRange): string | null {
+  if (!isValidRange(range)) return "The end date must be on or after the start date.";
+  if (getRangeDays(range) > DASHBOARD.MAX_RANGE_DAYS) {
+    return `Choose a range of at most ${DASHBOARD.MAX_RANGE_DAYS} days.`;
+  }
+  return null;
+}
+
+export default function PeriodSelector({ value, onChange }: PeriodSelectorProps) {
+  // Edited locally so a half-typed range never reaches the API
+  const [draft, setDraft] = useState<DateRange>(value.range);
+  const rangeError = getRangeError(draft);
+
+  const selectPeriod = (period: StatsPeriod, days: number) => {
+    if (period === "custom") {
+      onChange({ period, range: rangeError ? value.range : draft });
+      return;
+    }
+    const range = getLastDaysRange(days);
+    setDraft(range);
+    onChange({ period, range });
+  };
+
+  const updateDraft = (field: keyof DateRange, date: string) => {
+    const range = { ...draft, [field]: date };
+    setDraft(range);
+    if (!getRangeError(range)) {
+      onChange({ period: "custom", range });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Reporting period">
+        {DASHBOARD.PERIODS.map(({ value: period, label, days }, index) => (
+          <button
+            key={period}
+            type="button"
+            aria-pressed={value.period === period}
+            onClick={() => selectPeriod(period, days)}
+            className={`px-3 py-1.5 text-sm border border-gray-300 ${
+              index === 0 ? "rounded-l-md" : "-ml-px"
+            } ${index === DASHBOARD.PERIODS.length - 1 ? "rounded-r-md" : ""} ${
+              value.period === period
+                ? "bg-blue-600 text-white border-blue-600"
+                : "bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {value.period === "custom" && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            aria-label="From"
+            value={draft.from}
+            max={draft.to}
+            onChange={(event) => updateDraft("from", event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            aria-label="To"
+            value={draft.to}
+            min={draft.from}
+            onChange={(event) => updateDraft("to", event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+          {rangeError && (
+            <span className="text-red-600" role="alert">
+              {rangeError}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
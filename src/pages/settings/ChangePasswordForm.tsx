@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from "react";
+import { Lock } from "lucide-react";
+import { changePassword } from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import { SUCCESS_MESSAGES } from "../../util/config";
+import { evaluatePassword } from "../../util/passwordPolicy";
+import { useForm, rules } from "../../hooks/useForm";
+import { useAbortSignal } from "../../hooks/useAbortSignal";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
+import FieldError from "../../components/FieldError";
+
+export default function ChangePasswordForm() {
+  const { user } = useAuth();
+  const [success, setSuccess] = useState(false);
+  const getSignal = useAbortSignal();
+  const form = useForm({
+    initialValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+      signOutOtherSessions: true,
+    },
+    rules: {
+      currentPassword: [rules.required("Current password is required")],
+      newPassword: [
+        rules.required("New password is required"),
+        rules.password(() => (user ? { name: user.name, email: user.email } : {})),
+        (value, values) =>
+          value && value === values.currentPassword
+            ? "New password must be different from the current one"
+            : undefined,
+      ],
+      confirmPassword: [rules.matches("newPassword", "Passwords do not match")],
+    },
+    serverFieldMap: {
+      current_password: "currentPassword",
+      new_password: "newPassword",
+      password: "newPassword",
+    },
+    onSubmit: async ({ currentPassword, newPassword, signOutOtherSessions }) => {
+      setSuccess(false);
+      await changePassword({ currentPassword, newPassword, signOutOtherSessions }, getSignal());
+      form.reset();
+      setSuccess(true);
+    },
+  });
+  const { newPassword } = form.values;
+  const passwordEvaluation = useMemo(
+    () => evaluatePassword(newPassword, user ? { name: user.name, email: user.email } : undefined),
+    [newPassword, user]
+  );
+
+  function renderPasswordInput(
+    field: "currentPassword" | "newPassword" | "confirmPassword",
+    label: string,
+    autoComplete: string
+  ) {
+    const error = form.getError(field);
+    return (
+      <label className="block">
+        <span className="text-sm font-medium">{label}</span>
+        <div className="relative mt-1">
+          <Lock className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
+          <input
+            type="password"
+            {...form.register(field)}
+            autoComplete={autoComplete}
+            className={`w-full border rounded-md px-10 py-2 focus:ring-2 focus:ring-sky-500 ${
+              error ? "border-red-500" : ""
+            }`}
+            placeholder="••••••••"
+          />
+        </div>
+        <FieldError message={error} />
+      </label>
+    );
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit} noValidate className="space-y-4 max-w-md">
+      {renderPasswordInput("currentPassword", "Current Password", "current-password")}
+      {renderPasswordInput("newPassword", "New Password", "new-password")}
+      {newPassword && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
+      {renderPasswordInput("confirmPassword", "Confirm New Password", "new-password")}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={form.values.signOutOtherSessions}
+          onChange={(e) => form.setValue("signOutOtherSessions", e.target.checked)}
+          className="rounded border-slate-300"
+        />
+        Sign out of all other sessions
+      </label>
+
+      {form.formError && <div className="text-red-600 text-sm">{form.formError}</div>}
+      {success && (
+        <div className="text-sm text-green-700 bg-green-50 rounded-md p-3">
+          {SUCCESS_MESSAGES.PASSWORD_CHANGED}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={form.submitting}
+        className="bg-sky-600 text-white rounded-md px-4 py-2 hover:bg-sky-700 disabled:opacity-60"
+      >
+        {form.submitting ? "Updating..." : "Change Password"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,31 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import ChangePasswordForm from "./ChangePasswordForm";
+import { ROUTES } from "../../util/config";
+
+export default function Settings() {
+  return (
+    <div className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link
+          to={ROUTES.DASHBOARD}
+          className="inline-flex items-center gap-1 text-sm text-sky-600 hover:underline"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to dashboard
+        </Link>
+
+        <h1 className="text-3xl font-bold">Account Settings</h1>
+
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-1">Change Password</h2>
+          <p className="text-sm text-slate-500 mb-6">
+            Use a strong password you don't use anywhere else.
+          </p>
+          <ChangePasswordForm />
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React from "react";
+import type { Role, UserStatus } from "../../types";
+import { capitalize } from "../../util";
+
+const ROLE_STYLES: Record<Role, string> = {
+  admin: "bg-purple-100 text-purple-800",
+  manager: "bg-blue-100 text-blue-800",
+  member: "bg-gray-100 text-gray-700",
+};
+
+const STATUS_STYLES: Record<UserStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  inactive: "bg-gray-100 text-gray-600",
+  suspended: "bg-red-100 text-red-700",
+};
+
+const badgeClass = "inline-block px-2 py-0.5 rounded-full text-xs font-medium";
+
+export function RoleBadge({ role }: { role: Role }) {
+  return <span className={`${badgeClass} ${ROLE_STYLES[role]}`}>{capitalize(role)}</span>;
+}
+
+export function StatusBadge({ status }: { status: UserStatus }) {
+  return <span className={`${badgeClass} ${STATUS_STYLES[status]}`}>{capitalize(status)}</span>;
+}
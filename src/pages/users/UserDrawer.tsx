@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from "react";
+import { CheckCircle2, Pencil, Trash2, XCircle } from "lucide-react";
+import { useAuth } from "../../context/AuthContext";
+import { useQuery } from "../../hooks/useQuery";
+import { useDeleteUser } from "../../hooks/useUserMutations";
+import { User, userSchema } from "../../types";
+import { ENDPOINTS, SUCCESS_MESSAGES } from "../../util/config";
+import { formatDateTime } from "../../util";
+import Drawer from "../../components/Drawer";
+import ConfirmDialog from "../../components/ConfirmDialog";
+import UserEditForm from "./UserEditForm";
+import { RoleBadge, StatusBadge } from "./UserBadges";
+import { canDeleteUser, canEditUser } from "./permissions";
+
+interface UserDrawerProps {
+  userId: string | null;
+  onClose: () => void;
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-2 text-sm">
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="text-right text-gray-900">{children}</dd>
+    </div>
+  );
+}
+
+export default function UserDrawer({ userId, onClose }: UserDrawerProps) {
+  const { user: currentUser } = useAuth();
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [notice, setNotice] = useState("");
+  const deleteUser = useDeleteUser();
+  const { reset: resetDelete } = deleteUser;
+
+  const {
+    data: user,
+    error,
+    status,
+  } = useQuery<User>(ENDPOINTS.USERS.DETAIL(userId || ""), {
+    schema: userSchema,
+    enabled: !!userId,
+  });
+
+  // Each opened user starts in view mode
+  useEffect(() => {
+    setEditing(false);
+    setConfirmingDelete(false);
+    setNotice("");
+    resetDelete();
+  }, [userId, resetDelete]);
+
+  const handleDelete = async () => {
+    if (!user) return;
+    try {
+      await deleteUser.mutateAsync(user.id);
+      setConfirmingDelete(false);
+      onClose();
+    } catch {
+      // Shown in the dialog through deleteUser.error
+    }
+  };
+
+  return (
+    <Drawer open={!!userId} title={editing ? "Edit user" : "User details"} onClose={onClose}>
+      {status === "error" && !user ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error?.message}
+        </p>
+      ) : !user ? (
+        <div className="space-y-3 animate-pulse" aria-label="Loading user">
+          <div className="h-6 w-1/2 rounded bg-gray-200" />
+          <div className="h-4 w-2/3 rounded bg-gray-100" />
+          <div className="h-24 rounded bg-gray-100" />
+        </div>
+      ) : editing ? (
+        <UserEditForm
+          key={user.id}
+          user={user}
+          onSaved={() => {
+            setEditing(false);
+            setNotice(SUCCESS_MESSAGES.UPDATE);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <div className="space-y-5">
+          <div>
+            <p className="text-xl font-semibold">{user.name}</p>
+            <p className="text-gray-600">{user.email}</p>
+          </div>
+
+          {notice && (
+            <div className="text-sm text-green-700 bg-green-50 rounded-md p-3">{notice}</div>
+          )}
+
+          <dl className="divide-y divide-gray-100">
+            <DetailRow label="Role">
+              <RoleBadge role={user.role} />
+            </DetailRow>
+            <DetailRow label="Status">
+              <StatusBadge status={user.status} />
+            </DetailRow>
+            <DetailRow label="Email">
+              {user.emailVerified ? (
+                <span className="inline-flex items-center gap-1 text-green-700">
+                  <CheckCircle2 className="w-4 h-4" aria-hidden="true" /> Verified
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-amber-700">
+                  <XCircle className="w-4 h-4" aria-hidden="true" /> Not verified
+                </span>
+              )}
+            </DetailRow>
+            <DetailRow label="Created">{formatDateTime(user.createdAt)}</DetailRow>
+            {user.updatedAt && (
+              <DetailRow label="Last updated">{formatDateTime(user.updatedAt)}</DetailRow>
+            )}
+          </dl>
+
+          <div className="flex gap-2">
+            {canEditUser(currentUser, user) && (
+              <button
+                type="button"
+                onClick={() => {
+                  setNotice("");
+                  setEditing(true);
+                }}
+                className="inline-flex items-center gap-1.5 bg-sky-600 text-white rounded-md px-4 py-2 hover:bg-sky-700"
+              >
+                <Pencil className="w-4 h-4" aria-hidden="true" /> Edit
+              </button>
+            )}
+            {canDeleteUser(currentUser, user) && (
+              <button
+                type="button"
+                onClick={() => {
+                  resetDelete();
+                  setConfirmingDelete(true);
+                }}
+                className="inline-flex items-center gap-1.5 bg-red-50 text-red-700 rounded-md px-4 py-2 hover:bg-red-100"
+              >
+                <Trash2 className="w-4 h-4" aria-hidden="true" /> Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={confirmingDelete && !!user}
+        title={`Delete ${user?.name}?`}
+        confirmLabel="Delete user"
+        danger
+        pending={deleteUser.isPending}
+        error={deleteUser.error?.message}
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmingDelete(false)}
+      >
+        Their account and sessions are removed immediately. This cannot be undone.
+      </ConfirmDialog>
+    </Drawer>
+  );
+}
@@ -0,0 +1,128 @@
+import React from "react";
+import { useAuth } from "../../context/AuthContext";
+import { useUpdateUser } from "../../hooks/useUserMutations";
+import { useForm, rules } from "../../hooks/useForm";
+import { ROLES, USER_STATUSES, Role, User, UserStatus } from "../../types";
+import { VALIDATION } from "../../util/config";
+import { capitalize } from "../../util";
+import FieldError from "../../components/FieldError";
+import { canChangeAccess } from "./permissions";
+
+interface UserEditFormProps {
+  user: User;
+  onSaved: (user: User) => void;
+  onCancel: () => void;
+}
+
+interface UserFormValues {
+  name: string;
+  email: string;
+  role: Role;
+  status: UserStatus;
+}
+
+export default function UserEditForm({ user, onSaved, onCancel }: UserEditFormProps) {
+  const { user: currentUser } = useAuth();
+  const updateUser = useUpdateUser();
+  const accessEditable = canChangeAccess(currentUser);
+
+  const form = useForm<UserFormValues>({
+    initialValues: { name: user.name, email: user.email, role: user.role, status: user.status },
+    rules: {
+      name: [
+        rules.required("Full name is required"),
+        rules.maxLength(VALIDATION.USERNAME.MAX_LENGTH),
+      ],
+      email: [rules.required("Email is required"), rules.email()],
+    },
+    onSubmit: async (values) => {
+      // Send only what changed, so a manager's save never touches role or status
+      const changes: Partial<Pick<User, keyof UserFormValues>> = {};
+      if (form.dirty.name) changes.name = values.name.trim();
+      if (form.dirty.email) changes.email = values.email;
+      if (form.dirty.role) changes.role = values.role;
+      if (form.dirty.status) changes.status = values.status;
+      const saved = Object.keys(changes).length
+        ? await updateUser.mutateAsync({ id: user.id, changes })
+        : user;
+      onSaved(saved);
+    },
+  });
+
+  const inputClass = (field: keyof UserFormValues) =>
+    `mt-1 w-full border rounded-md px-3 py-2 focus:ring-2 focus:ring-sky-500 disabled:bg-gray-50 ${
+      form.getError(field) ? "border-red-500" : ""
+    }`;
+
+  return (
+    <form onSubmit={form.handleSubmit} noValidate className="space-y-4">
+      <label className="block">
+        <span className="text-sm font-medium">Name</span>
+        <input type="text" {...form.register("name")} className={inputClass("name")} />
+        <FieldError message={form.getError("name")} />
+      </label>
+
+      <label className="block">
+        <span className="text-sm font-medium">Email</span>
+        <input type="email" {...form.register("email")} className={inputClass("email")} />
+        <FieldError message={form.getError("email")} />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-sm font-medium">Role</span>
+          <select
+            {...form.register("role")}
+            disabled={!accessEditable}
+            className={inputClass("role")}
+          >
+            {ROLES.map((role) => (
+              <option key={role} value={role}>
+                {capitalize(role)}
+              </option>
+            ))}
+          </select>
+          <FieldError message={form.getError("role")} />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium">Status</span>
+          <select
+            {...form.register("status")}
+            disabled={!accessEditable}
+            className={inputClass("status")}
+          >
+            {USER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {capitalize(status)}
+              </option>
+            ))}
+          </select>
+          <FieldError message={form.getError("status")} />
+        </label>
+      </div>
+      {!accessEditable && (
+        <p className="text-xs text-gray-500">Only admins can change roles and statuses.</p>
+      )}
+
+      {form.formError && <div className="text-red-600 text-sm">{form.formError}</div>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={form.submitting || !form.isDirty}
+          className="bg-sky-600 text-white rounded-md px-4 py-2 hover:bg-sky-700 disabled:opacity-60"
+        >
+          {form.submitting ? "Saving..." : "Save changes"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={form.submitting}
+          className="bg-gray-200 text-gray-800 rounded-md px-4 py-2 hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
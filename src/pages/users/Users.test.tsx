@@ -0,0 +1,37 @@
+import React from "react";
+import { fireEvent, screen, waitFor, within } from "@testing-library/react";
+import { renderWithProviders, resetMockApi, setupMockApi } from "../../mocks/testUtils";
+import { ROUTES } from "../../util/config";
+import Users from "./Users";
+
+afterEach(resetMockApi);
+
+test("searches, edits and deletes users", async () => {
+  const mockApi = await setupMockApi();
+
+  renderWithProviders(<Users />, { route: ROUTES.USERS, path: ROUTES.USERS });
+
+  expect(await screen.findByText(/of 60$/)).toBeInTheDocument();
+  expect(screen.getAllByRole("row")).toHaveLength(11);
+
+  fireEvent.change(screen.getByLabelText("Search users"), {
+    target: { value: "manager@company" },
+  });
+  await waitFor(() => expect(screen.getAllByRole("row")).toHaveLength(2));
+
+  fireEvent.click(screen.getByRole("button", { name: /morgan manager/i }));
+  const drawer = await screen.findByRole("dialog", { name: "User details" });
+  fireEvent.click(await within(drawer).findByRole("button", { name: /edit/i }));
+  fireEvent.change(within(drawer).getByLabelText("Name"), { target: { value: "Morgan M." } });
+  fireEvent.click(within(drawer).getByRole("button", { name: /save changes/i }));
+  expect(await within(drawer).findByText("Updated successfully!")).toBeInTheDocument();
+  await waitFor(() => expect(screen.getAllByRole("row")[1]).toHaveTextContent("Morgan M."));
+
+  fireEvent.click(within(drawer).getByRole("button", { name: /delete/i }));
+  const confirm = screen.getByRole("alertdialog", { name: "Delete Morgan M.?" });
+  fireEvent.click(within(confirm).getByRole("button", { name: "Delete user" }));
+
+  await waitFor(() => expect(screen.queryByRole("dialog")).not.toBeInTheDocument());
+  expect(await screen.findByText("No users match these filters.")).toBeInTheDocument();
+  expect(mockApi.db.users.find((user) => user.id === "u2")).toBeUndefined();
+});
@@ -0,0 +1,283 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { AlertCircle, Search } from "lucide-react";
+import { useQuery } from "../../hooks/useQuery";
+import {
+  Paginated,
+  Role,
+  ROLES,
+  User,
+  userListSchema,
+  UserStatus,
+  USER_STATUSES,
+} from "../../types";
+import { ENDPOINTS, PAGINATION, ROUTES, USER_ADMIN } from "../../util/config";
+import { capitalize, debounce, formatDate } from "../../util";
+import { fetchAllPages } from "../../util/export";
+import Pagination from "../../components/Pagination";
+import DataTable from "../../components/table/DataTable";
+import type { ColumnDef, FilterState } from "../../components/table/types";
+import UserDrawer from "./UserDrawer";
+import { RoleBadge, StatusBadge } from "./UserBadges";
+
+type SortField = "name" | "email" | "role" | "status" | "createdAt";
+type SortOrder = "asc" | "desc";
+
+const SORT_FIELDS: SortField[] = ["name", "email", "role", "status", "createdAt"];
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+function toOptions(values: readonly string[]) {
+  return values.map((value) => ({ value, label: capitalize(value) }));
+}
+
+function oneOf<T extends string>(value: string | null, options: readonly T[]): T | "" {
+  return options.includes(value as T) ? (value as T) : "";
+}
+
+/**
+ * Users admin: list state lives in the URL so views can be shared and survive reloads
+ */
+export default function Users() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = parsePositiveInt(searchParams.get("page"), PAGINATION.DEFAULT_PAGE);
+  const limit = Math.min(
+    PAGINATION.MAX_LIMIT,
+    parsePositiveInt(searchParams.get("limit"), PAGINATION.DEFAULT_LIMIT)
+  );
+  const search = searchParams.get("q") || "";
+  const role = oneOf<Role>(searchParams.get("role"), ROLES);
+  const status = oneOf<UserStatus>(searchParams.get("status"), USER_STATUSES);
+  const sort = oneOf(searchParams.get("sort"), SORT_FIELDS) || USER_ADMIN.DEFAULT_SORT;
+  const order: SortOrder =
+    oneOf<SortOrder>(searchParams.get("order"), ["asc", "desc"]) || USER_ADMIN.DEFAULT_ORDER;
+  const selectedId = searchParams.get("user");
+
+  /**
+   * Merges changes into the URL; anything that changes the result set goes back to page 1
+   */
+  const updateParams = useCallback(
+    (changes: Record<string, string | number | null>, resetPage = true) => {
+      setSearchParams((current) => {
+        const next = new URLSearchParams(current);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value === null || value === "") {
+            next.delete(key);
+          } else {
+            next.set(key, String(value));
+          }
+        });
+        if (resetPage) next.delete("page");
+        return next;
+      });
+    },
+    [setSearchParams]
+  );
+
+  const [searchInput, setSearchInput] = useState(search);
+  const updateParamsRef = useRef(updateParams);
+  updateParamsRef.current = updateParams;
+  const debouncedSearch = useMemo(
+    () =>
+      debounce(
+        (value: string) => updateParamsRef.current({ q: value.trim() || null }),
+        USER_ADMIN.SEARCH_DEBOUNCE
+      ),
+    []
+  );
+  // A search typed just before leaving the page must not navigate back to it
+  useEffect(() => () => debouncedSearch.cancel(), [debouncedSearch]);
+
+  // Back/forward navigation changes the query without typing
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === search ? current : search));
+  }, [search]);
+
+  // Shared by the page query and "export all"
+  const listParams = {
+    search: search || undefined,
+    role: role || undefined,
+    status: status || undefined,
+    sort,
+    order,
+  };
+  const {
+    data,
+    error,
+    status: queryStatus,
+    isLoading,
+    isPreviousData,
+    refetch,
+  } = useQuery<Paginated<User>>(ENDPOINTS.USERS.LIST, {
+    params: { ...listParams, page, limit },
+    schema: userListSchema,
+    keepPreviousData: true,
+  });
+
+  // Deleting the last rows of the last page would otherwise leave an empty page
+  const totalPages = data?.meta.totalPages;
+  useEffect(() => {
+    if (totalPages && !isPreviousData && page > totalPages) {
+      updateParams({ page: totalPages }, false);
+    }
+  }, [page, totalPages, isPreviousData, updateParams]);
+
+  const columns = useMemo(
+    (): ColumnDef<User>[] => [
+      {
+        id: "name",
+        header: "Name",
+        sortable: true,
+        hideable: false,
+        cell: (user) => (
+          <button
+            type="button"
+            onClick={() => updateParams({ user: user.id }, false)}
+            className="text-left"
+          >
+            <span className="block font-medium text-gray-900 hover:underline">{user.name}</span>
+            <span className="block text-gray-500">{user.email}</span>
+          </button>
+        ),
+      },
+      { id: "email", header: "Email", sortable: true, defaultHidden: true },
+      {
+        id: "role",
+        header: "Role",
+        sortable: true,
+        filter: { type: "select", options: toOptions(ROLES) },
+        cell: (user) => <RoleBadge role={user.role} />,
+      },
+      {
+        id: "status",
+        header: "Status",
+        sortable: true,
+        filter: { type: "select", options: toOptions(USER_STATUSES) },
+        cell: (user) => <StatusBadge status={user.status} />,
+      },
+      {
+        id: "createdAt",
+        header: "Joined",
+        sortable: true,
+        exportType: "date",
+        cell: (user) => <span className="text-gray-600">{formatDate(user.createdAt)}</span>,
+      },
+    ],
+    [updateParams]
+  );
+  const filters = useMemo(() => {
+    const next: FilterState = {};
+    if (role) next.role = role;
+    if (status) next.status = status;
+    return next;
+  }, [role, status]);
+
+  const closeDrawer = useCallback(() => updateParams({ user: null }, false), [updateParams]);
+  const hasFilters = !!(search || role || status);
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <Link to={ROUTES.DASHBOARD} className="text-sm text-blue-600 hover:underline">
+              ← Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold">Users</h1>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-5 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="relative flex-1 min-w-[16rem]">
+              <span className="sr-only">Search users</span>
+              <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(event) => {
+                  setSearchInput(event.target.value);
+                  debouncedSearch(event.target.value);
+                }}
+                placeholder="Search by name or email"
+                className="w-full border border-gray-300 rounded-md pl-9 pr-3 py-2 text-sm"
+              />
+            </label>
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => {
+                  debouncedSearch.cancel();
+                  setSearchInput("");
+                  updateParams({ q: null, role: null, status: null });
+                }}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          {queryStatus === "error" && !data ? (
+            <div className="flex items-center gap-2 text-sm text-red-600" role="alert">
+              <AlertCircle className="w-4 h-4 shrink-0" aria-hidden="true" />
+              <span>{error?.message}</span>
+              <button
+                type="button"
+                onClick={() => refetch()}
+                className="font-medium text-blue-600 hover:underline"
+              >
+                Retry
+              </button>
+            </div>
+          ) : (
+            <DataTable
+              label="Users"
+              mode="server"
+              columns={columns}
+              rows={data?.items || []}
+              getRowId={(user) => user.id}
+              storageKey="users"
+              sort={{ columnId: sort, direction: order }}
+              onSortChange={(next) =>
+                next && updateParams({ sort: next.columnId, order: next.direction }, false)
+              }
+              filters={filters}
+              onFiltersChange={(next) =>
+                updateParams({ role: next.role || null, status: next.status || null })
+              }
+              activeRowId={selectedId}
+              loading={isLoading}
+              busy={isPreviousData}
+              emptyMessage={hasFilters ? "No users match these filters." : "No users yet."}
+              exportOptions={{
+                filename: "users",
+                fetchAll: (signal, onProgress) =>
+                  fetchAllPages<User>(ENDPOINTS.USERS.LIST, {
+                    params: listParams,
+                    schema: userListSchema,
+                    signal,
+                    onProgress,
+                  }),
+              }}
+            />
+          )}
+
+          {data && (
+            <Pagination
+              meta={data.meta}
+              disabled={isPreviousData}
+              onPageChange={(next) => updateParams({ page: next }, false)}
+              onLimitChange={(next) => updateParams({ limit: next })}
+            />
+          )}
+        </div>
+      </div>
+
+      <UserDrawer userId={selectedId} onClose={closeDrawer} />
+    </div>
+  );
+}
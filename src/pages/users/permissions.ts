@@ -0,0 +1,27 @@
+// User Permissions
+// Client-side mirror of the API's user management rules, used to hide actions that would fail
+
+import type { User } from "../../types";
+
+/**
+ * Admins edit anyone; managers edit members, other managers and themselves
+ */
+export function canEditUser(actor: User | null, target: User): boolean {
+  if (!actor) return false;
+  if (actor.id === target.id || actor.role === "admin") return true;
+  return actor.role === "manager" && target.role !== "admin";
+}
+
+/**
+ * Only admins change roles and account statuses
+ */
+export function canChangeAccess(actor: User | null): boolean {
+  return actor?.role === "admin";
+}
+
+/**
+ * Only admins delete, and never their own account
+ */
+export function canDeleteUser(actor: User | null, target: User): boolean {
+  return actor?.role === "admin" && actor.id !== target.id;
+}
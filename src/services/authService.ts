@@ -0,0 +1,161 @@
+// Auth Service
+// Authentication API calls backed by the shared request client
+
+import { ENDPOINTS } from "../util/config";
+import { post } from "../util/request";
+import {
+  getAuthToken,
+  getRefreshToken,
+  saveSession,
+  clearSession,
+  setAuthTokens,
+  setVerificationSentAt,
+} from "../util/authStorage";
+import { setProfile, clearProfile, loadProfile } from "../stores/profileStore";
+import { removeQueries } from "../util/queryCache";
+import { Session, sessionSchema } from "../types";
+
+/**
+ * Login credentials
+ */
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Registration payload
+ */
+export interface RegisterPayload {
+  name: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * Reset password payload
+ */
+export interface ResetPasswordPayload {
+  token: string;
+  password: string;
+}
+
+/**
+ * Change password payload
+ */
+export interface ChangePasswordPayload {
+  currentPassword: string;
+  newPassword: string;
+  signOutOtherSessions?: boolean;
+}
+
+/**
+ * Logs in and persists the session
+ */
+export async function login(credentials: LoginCredentials): Promise<Session> {
+  const response = await post<Session>(ENDPOINTS.AUTH.LOGIN, credentials, {
+    requiresAuth: false,
+    schema: sessionSchema,
+  });
+  saveSession(response.data);
+  setProfile(response.data.user);
+  return response.data;
+}
+
+/**
+ * Registers a new account and persists the session
+ */
+export async function register(payload: RegisterPayload): Promise<Session> {
+  const response = await post<Session>(ENDPOINTS.AUTH.REGISTER, payload, {
+    requiresAuth: false,
+    schema: sessionSchema,
+  });
+  saveSession(response.data);
+  setProfile(response.data.user);
+
+  // The server sends the first verification email on registration
+  if (!response.data.user.emailVerified) {
+    setVerificationSentAt(Date.now());
+  }
+  return response.data;
+}
+
+/**
+ * Logs out on the server and clears the local session
+ */
+export async function logout(): Promise<void> {
+  if (!getAuthToken()) {
+    clearSession();
+    clearProfile();
+    removeQueries();
+    return;
+  }
+
+  try {
+    await post(
+      ENDPOINTS.AUTH.LOGOUT,
+      { refreshToken: getRefreshToken() },
+      { skipAuthRefresh: true }
+    );
+  } catch {
+    // The local session is cleared regardless of the server response
+  } finally {
+    clearSession();
+    clearProfile();
+    removeQueries();
+  }
+}
+
+/**
+ * Requests a password reset email
+ */
+export async function forgotPassword(email: string, signal?: AbortSignal): Promise<void> {
+  await post(ENDPOINTS.AUTH.FORGOT_PASSWORD, { email }, { requiresAuth: false, signal });
+}
+
+/**
+ * Sets a new password using the token from the reset email
+ */
+export async function resetPassword(
+  payload: ResetPasswordPayload,
+  signal?: AbortSignal
+): Promise<void> {
+  await post(ENDPOINTS.AUTH.RESET_PASSWORD, payload, { requiresAuth: false, signal });
+}
+
+/**
+ * Confirms an email address using the token from the verification email
+ */
+export async function verifyEmail(token: string): Promise<void> {
+  await post(ENDPOINTS.AUTH.VERIFY_EMAIL, { token }, { requiresAuth: false });
+
+  // Pick up the new verification flag when signed in on this device
+  if (getAuthToken()) {
+    await loadProfile().catch(() => undefined);
+  }
+}
+
+/**
+ * Sends the verification email again
+ */
+export async function resendVerificationEmail(): Promise<void> {
+  await post(ENDPOINTS.AUTH.RESEND_VERIFICATION);
+  setVerificationSentAt(Date.now());
+}
+
+/**
+ * Changes the signed-in user's password
+ */
+export async function changePassword(
+  payload: ChangePasswordPayload,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await post<Partial<Session> | null>(ENDPOINTS.AUTH.CHANGE_PASSWORD, payload, {
+    signal,
+  });
+
+  // Revoking other sessions may rotate the current tokens too
+  if (response.data?.token) {
+    setAuthTokens(response.data.token, response.data.refreshToken);
+  }
+}
@@ -0,0 +1,165 @@
+// Profile Store
+// Reactive store for the signed-in user's profile, synced across tabs
+
+import { useEffect, useSyncExternalStore } from "react";
+import { ENDPOINTS, STORAGE_KEYS } from "../util/config";
+import { get, patch } from "../util/request";
+import {
+  getAuthToken,
+  getStoredUser,
+  setStoredUser,
+} from "../util/authStorage";
+import { User, userSchema } from "../types";
+
+/**
+ * Store state
+ */
+export interface ProfileState {
+  profile: User | null;
+  loading: boolean;
+  error: Error | null;
+  loaded: boolean;
+}
+
+type Listener = () => void;
+
+let state: ProfileState = {
+  profile: getStoredUser<User>(),
+  loading: false,
+  error: null,
+  loaded: false,
+};
+
+const listeners = new Set<Listener>();
+let loadPromise: Promise<User | null> | null = null;
+
+/**
+ * Replace state and notify subscribers
+ */
+function setState(partial: Partial<ProfileState>): void {
+  state = { ...state, ...partial };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Apply a profile locally and persist it for other tabs
+ */
+function commitProfile(profile: User | null): void {
+  setStoredUser(profile);
+  setState({ profile });
+}
+
+/**
+ * Subscribes to store changes
+ */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Gets current store snapshot
+ */
+export function getProfileState(): ProfileState {
+  return state;
+}
+
+/**
+ * Sets profile (e.g. after login)
+ */
+export function setProfile(profile: User | null): void {
+  setStoredUser(profile);
+  setState({ profile, loaded: profile !== null, error: null });
+}
+
+/**
+ * Clears profile (e.g. after logout)
+ */
+export function clearProfile(): void {
+  setStoredUser(null);
+  setState({ profile: null, loading: false, error: null, loaded: false });
+}
+
+/**
+ * Loads profile from the server, deduplicating concurrent calls
+ */
+export function loadProfile(): Promise<User | null> {
+  if (loadPromise) return loadPromise;
+
+  setState({ loading: true, error: null });
+  loadPromise = get<User>(ENDPOINTS.USERS.ME, { schema: userSchema })
+    .then((response) => {
+      commitProfile(response.data);
+      setState({ loading: false, loaded: true });
+      return response.data;
+    })
+    .catch((error) => {
+      setState({ loading: false, error });
+      throw error;
+    })
+    .finally(() => {
+      loadPromise = null;
+    });
+
+  return loadPromise;
+}
+
+/**
+ * Updates profile optimistically, rolling back on failure
+ */
+export async function updateProfile(changes: Partial<User>): Promise<User> {
+  const previous = state.profile;
+  if (!previous) {
+    throw new Error("Cannot update profile before it is loaded");
+  }
+
+  commitProfile({ ...previous, ...changes });
+  setState({ error: null });
+
+  try {
+    const response = await patch<User>(ENDPOINTS.USERS.UPDATE(previous.id), changes, {
+      schema: userSchema,
+    });
+    commitProfile(response.data);
+    return response.data;
+  } catch (error: any) {
+    commitProfile(previous);
+    setState({ error });
+    throw error;
+  }
+}
+
+// Keep tabs in sync: another tab logging in/out or editing the profile
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event: StorageEvent) => {
+    if (event.key === null) {
+      setState({ profile: null, loaded: false });
+      return;
+    }
+
+    if (event.key === STORAGE_KEYS.USER) {
+      setState({ profile: getStoredUser<User>() });
+    }
+  });
+}
+
+/**
+ * React hook exposing the profile with loading/error state
+ */
+export function useProfile() {
+  const snapshot = useSyncExternalStore(subscribe, getProfileState);
+
+  useEffect(() => {
+    if (!snapshot.loaded && !snapshot.loading && !snapshot.error && getAuthToken()) {
+      loadProfile().catch(() => undefined);
+    }
+  }, [snapshot.loaded, snapshot.loading, snapshot.error]);
+
+  return {
+    ...snapshot,
+    reload: loadProfile,
+    update: updateProfile,
+  };
+}
@@ -0,0 +1,22 @@
+// Types Module - Central export point for models and their schemas
+
+export type { Role, UserStatus, User, Session } from "./models/user";
+export type { PaginationMeta, Paginated } from "./models/pagination";
+export type {
+  StatsPeriod,
+  KpiFormat,
+  Kpi,
+  DashboardStats,
+  ActivityType,
+  ActivityActor,
+  ActivityEvent,
+  Granularity,
+  AnalyticsPoint,
+  AnalyticsSeries,
+  AnalyticsSlice,
+  DashboardAnalytics,
+} from "./models/dashboard";
+
+export * from "./models/user.schema";
+export * from "./models/pagination.schema";
+export * from "./models/dashboard.schema";
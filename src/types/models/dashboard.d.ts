@@ -0,0 +1,109 @@
+// Dashboard Models
+// Shapes of the DASHBOARD.STATS, RECENT_ACTIVITY and ANALYTICS payloads
+
+/**
+ * Reporting window selectable on the dashboard
+ */
+export type StatsPeriod = "7d" | "30d" | "90d" | "custom";
+
+/**
+ * How a KPI value is displayed
+ */
+export type KpiFormat = "number" | "currency" | "percent";
+
+/**
+ * Single KPI with the value for the same-length window before it
+ */
+export interface Kpi {
+  key: string;
+  label: string;
+  value: number;
+  previousValue: number;
+  format: KpiFormat;
+  /** ISO 4217 code for currency KPIs */
+  currency?: string;
+}
+
+/**
+ * DASHBOARD.STATS response
+ */
+export interface DashboardStats {
+  period: StatsPeriod;
+  /** ISO dates bounding the window */
+  from: string;
+  to: string;
+  kpis: Kpi[];
+}
+
+/**
+ * Kind of activity event
+ */
+export type ActivityType =
+  | "user.created"
+  | "user.updated"
+  | "user.deleted"
+  | "auth.login"
+  | "auth.password_changed"
+  | "order.created"
+  | "order.refunded";
+
+/**
+ * Who performed an activity
+ */
+export interface ActivityActor {
+  id: string;
+  name: string;
+  avatarUrl?: string | null;
+}
+
+/**
+ * Entry of the DASHBOARD.RECENT_ACTIVITY feed (newest first)
+ */
+export interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  actor: ActivityActor;
+  message: string;
+  createdAt: string;
+}
+
+/**
+ * Bucket size of a time series
+ */
+export type Granularity = "hour" | "day" | "week" | "month";
+
+export interface AnalyticsPoint {
+  /** ISO start of the bucket */
+  timestamp: string;
+  value: number;
+}
+
+/**
+ * One metric over time, optionally with the previous period aligned bucket by bucket
+ */
+export interface AnalyticsSeries {
+  key: string;
+  label: string;
+  points: AnalyticsPoint[];
+  previous?: AnalyticsPoint[];
+}
+
+/**
+ * Share of a total, e.g. revenue by channel
+ */
+export interface AnalyticsSlice {
+  key: string;
+  label: string;
+  value: number;
+}
+
+/**
+ * DASHBOARD.ANALYTICS response
+ */
+export interface DashboardAnalytics {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  series: AnalyticsSeries[];
+  breakdown: AnalyticsSlice[];
+}
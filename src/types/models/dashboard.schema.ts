@@ -0,0 +1,130 @@
+// Dashboard Schemas
+// JSON schemas mirroring ./dashboard.d.ts for runtime validation of API payloads
+
+import { JSONSchemaType } from "ajv";
+import {
+  ActivityActor,
+  ActivityEvent,
+  ActivityType,
+  AnalyticsPoint,
+  AnalyticsSeries,
+  AnalyticsSlice,
+  DashboardAnalytics,
+  DashboardStats,
+  Granularity,
+  Kpi,
+  KpiFormat,
+  StatsPeriod,
+} from "./dashboard";
+import { paginatedSchema } from "./pagination.schema";
+
+export const STATS_PERIODS: StatsPeriod[] = ["7d", "30d", "90d", "custom"];
+export const KPI_FORMATS: KpiFormat[] = ["number", "currency", "percent"];
+export const GRANULARITIES: Granularity[] = ["hour", "day", "week", "month"];
+export const ACTIVITY_TYPES: ActivityType[] = [
+  "user.created",
+  "user.updated",
+  "user.deleted",
+  "auth.login",
+  "auth.password_changed",
+  "order.created",
+  "order.refunded",
+];
+
+export const kpiSchema: JSONSchemaType<Kpi> = {
+  type: "object",
+  properties: {
+    key: { type: "string", minLength: 1 },
+    label: { type: "string" },
+    value: { type: "number" },
+    previousValue: { type: "number" },
+    format: { type: "string", enum: KPI_FORMATS },
+    currency: { type: "string", nullable: true },
+  },
+  required: ["key", "label", "value", "previousValue", "format"],
+  additionalProperties: true,
+};
+
+export const dashboardStatsSchema: JSONSchemaType<DashboardStats> = {
+  type: "object",
+  properties: {
+    period: { type: "string", enum: STATS_PERIODS },
+    from: { type: "string" },
+    to: { type: "string" },
+    kpis: { type: "array", items: kpiSchema },
+  },
+  required: ["period", "from", "to", "kpis"],
+  additionalProperties: true,
+};
+
+export const activityActorSchema: JSONSchemaType<ActivityActor> = {
+  type: "object",
+  properties: {
+    id: { type: "string", minLength: 1 },
+    name: { type: "string" },
+    avatarUrl: { type: "string", nullable: true },
+  },
+  required: ["id", "name"],
+  additionalProperties: true,
+};
+
+export const activityEventSchema: JSONSchemaType<ActivityEvent> = {
+  type: "object",
+  properties: {
+    id: { type: "string", minLength: 1 },
+    type: { type: "string", enum: ACTIVITY_TYPES },
+    actor: activityActorSchema,
+    message: { type: "string" },
+    createdAt: { type: "string" },
+  },
+  required: ["id", "type", "actor", "message", "createdAt"],
+  additionalProperties: true,
+};
+
+export const activityPageSchema = paginatedSchema(activityEventSchema);
+
+export const analyticsPointSchema: JSONSchemaType<AnalyticsPoint> = {
+  type: "object",
+  properties: {
+    timestamp: { type: "string" },
+    value: { type: "number" },
+  },
+  required: ["timestamp", "value"],
+  additionalProperties: true,
+};
+
+export const analyticsSeriesSchema: JSONSchemaType<AnalyticsSeries> = {
+  type: "object",
+  properties: {
+    key: { type: "string", minLength: 1 },
+    label: { type: "string" },
+    points: { type: "array", items: analyticsPointSchema },
+    previous: { type: "array", items: analyticsPointSchema, nullable: true },
+  },
+  required: ["key", "label", "points"],
+  additionalProperties: true,
+};
+
+export const analyticsSliceSchema: JSONSchemaType<AnalyticsSlice> = {
+  type: "object",
+  properties: {
+    key: { type: "string", minLength: 1 },
+    label: { type: "string" },
+    value: { type: "number" },
+  },
+  required: ["key", "label", "value"],
+  additionalProperties: true,
+};
+
+export const dashboardAnalyticsSchema: JSONSchemaType<DashboardAnalytics> = {
+  type: "object",
+  properties: {
+    from: { type: "string" },
+    to: { type: "string" },
+    granularity: { type: "string", enum: GRANULARITIES },
+    series: { type: "array", items: analyticsSeriesSchema },
+    breakdown: { type: "array", items: analyticsSliceSchema },
+  },
+  required: ["from", "to", "granularity", "series", "breakdown"],
+  additionalProperties: true,
+};
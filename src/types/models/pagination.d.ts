@@ -0,0 +1,20 @@
+// Pagination Models
+// Envelope used by list endpoints
+
+/**
+ * Pagination metadata
+ */
+export interface PaginationMeta {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Paginated list envelope
+ */
+export interface Paginated<T> {
+  items: T[];
+  meta: PaginationMeta;
+}
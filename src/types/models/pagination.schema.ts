@@ -0,0 +1,32 @@
+// Pagination Schemas
+// JSON schemas mirroring ./pagination.d.ts
+
+import { JSONSchemaType } from "ajv";
+import { Paginated, PaginationMeta } from "./pagination";
+
+export const paginationMetaSchema: JSONSchemaType<PaginationMeta> = {
+  type: "object",
+  properties: {
+    page: { type: "integer", minimum: 1 },
+    limit: { type: "integer", minimum: 1 },
+    total: { type: "integer", minimum: 0 },
+    totalPages: { type: "integer", minimum: 0 },
+  },
+  required: ["page", "limit", "total", "totalPages"],
+  additionalProperties: true,
+};
+
+/**
+ * Builds a paginated envelope schema around an item schema
+ */
+export function paginatedSchema<T>(itemSchema: JSONSchemaType<T>): JSONSchemaType<Paginated<T>> {
+  return {
+    type: "object",
+    properties: {
+      items: { type: "array", items: itemSchema },
+      meta: paginationMetaSchema,
+    },
+    required: ["items", "meta"],
+    additionalProperties: true,
+  } as JSONSchemaType<Paginated<T>>;
+}
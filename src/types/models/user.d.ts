@@ -0,0 +1,37 @@
+// User Models
+// Shapes of user-related API payloads (runtime schemas live in ./user.schema.ts)
+
+/**
+ * Role assigned to a user
+ */
+export type Role = "admin" | "manager" | "member";
+
+/**
+ * Account status
+ */
+export type UserStatus = "active" | "inactive" | "suspended";
+
+/**
+ * User as returned by the API
+ */
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  status: UserStatus;
+  emailVerified: boolean;
+  avatarUrl?: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Authenticated session returned by login/register
+ */
+export interface Session {
+  token: string;
+  refreshToken?: string;
+  expiresAt?: string;
+  user: User;
+}
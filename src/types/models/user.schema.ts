@@ -0,0 +1,45 @@
+// User Schemas
+// JSON schemas mirroring ./user.d.ts for runtime validation of API payloads
+
+import { JSONSchemaType } from "ajv";
+import { Role, Session, User, UserStatus } from "./user";
+import { paginatedSchema } from "./pagination.schema";
+
+export const ROLES: Role[] = ["admin", "manager", "member"];
+export const USER_STATUSES: UserStatus[] = ["active", "inactive", "suspended"];
+
+export const roleSchema: JSONSchemaType<Role> = {
+  type: "string",
+  enum: ROLES,
+};
+
+export const userSchema: JSONSchemaType<User> = {
+  type: "object",
+  properties: {
+    id: { type: "string", minLength: 1 },
+    name: { type: "string" },
+    email: { type: "string" },
+    role: roleSchema,
+    status: { type: "string", enum: USER_STATUSES },
+    emailVerified: { type: "boolean" },
+    avatarUrl: { type: "string", nullable: true },
+    createdAt: { type: "string" },
+    updatedAt: { type: "string", nullable: true },
+  },
+  required: ["id", "name", "email", "role", "status", "emailVerified", "createdAt"],
+  additionalProperties: true,
+};
+
+export const userListSchema = paginatedSchema(userSchema);
+
+export const sessionSchema: JSONSchemaType<Session> = {
+  type: "object",
+  properties: {
+    token: { type: "string", minLength: 1 },
+    refreshToken: { type: "string", nullable: true },
+    expiresAt: { type: "string", nullable: true },
+    user: userSchema,
+  },
+  required: ["token", "user"],
+  additionalProperties: true,
+};
@@ -0,0 +1,96 @@
+// Auth Storage
+// Single source of truth for the persisted session (tokens + user)
+
+import { STORAGE_KEYS } from "./config";
+
+/**
+ * Session data persisted after login/register
+ */
+export interface StoredSession {
+  token: string;
+  refreshToken?: string | null;
+  user?: any;
+}
+
+/**
+ * Gets access token
+ */
+export function getAuthToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.TOKEN);
+}
+
+/**
+ * Gets refresh token
+ */
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+}
+
+/**
+ * Gets persisted user
+ */
+export function getStoredUser<T = any>(): T | null {
+  const userStr = localStorage.getItem(STORAGE_KEYS.USER);
+  if (!userStr) return null;
+  try {
+    return JSON.parse(userStr);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persists access token and, when provided, refresh token
+ */
+export function setAuthTokens(token: string, refreshToken?: string | null): void {
+  localStorage.setItem(STORAGE_KEYS.TOKEN, token);
+  if (refreshToken) {
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
+  }
+}
+
+/**
+ * Persists user
+ */
+export function setStoredUser(user: any): void {
+  if (user === undefined || user === null) {
+    localStorage.removeItem(STORAGE_KEYS.USER);
+    return;
+  }
+  localStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+}
+
+/**
+ * Persists a full session
+ */
+export function saveSession(session: StoredSession): void {
+  setAuthTokens(session.token, session.refreshToken);
+  if (session.user !== undefined) {
+    setStoredUser(session.user);
+  }
+}
+
+/**
+ * Gets when a verification email was last requested (ms since epoch)
+ */
+export function getVerificationSentAt(): number {
+  return Number(localStorage.getItem(STORAGE_KEYS.VERIFICATION_SENT_AT)) || 0;
+}
+
+/**
+ * Records when a verification email was requested
+ */
+export function setVerificationSentAt(timestamp: number): void {
+  localStorage.setItem(STORAGE_KEYS.VERIFICATION_SENT_AT, String(timestamp));
+}
+
+/**
+ * Clears all session data
+ */
+export function clearSession(): void {
+  localStorage.removeItem(STORAGE_KEYS.TOKEN);
+  localStorage.removeItem(STORAGE_KEYS.USER);
+  localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
+  localStorage.removeItem(STORAGE_KEYS.VERIFICATION_SENT_AT);
+  localStorage.removeItem(STORAGE_KEYS.UPLOAD_SESSIONS);
+}
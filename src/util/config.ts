@@ -23,9 +23,12 @@ export const STORAGE_KEYS = {
   TOKEN: "auth_token",
   USER: "auth_user",
   REFRESH_TOKEN: "refresh_token",
+  VERIFICATION_SENT_AT: "verification_sent_at",
+  UPLOAD_SESSIONS: "upload_sessions",
+  /** Column order/visibility per table; a UI preference, so it survives logout */
+  TABLE_LAYOUTS: "table_layouts",
 } as const;
 
-
 /**
  * API Endpoints
  */
@@ -37,6 +40,7 @@ export const ENDPOINTS = {
     LOGOUT: "/auth/logout",
     REFRESH: "/auth/refresh-token",
     VERIFY_EMAIL: "/auth/verify-email",
+    RESEND_VERIFICATION: "/auth/verify-email/resend",
     FORGOT_PASSWORD: "/auth/forgot-password",
     RESET_PASSWORD: "/auth/reset-password",
     CHANGE_PASSWORD: "/auth/change-password",
@@ -52,6 +56,14 @@ export const ENDPOINTS = {
     AVATAR: "/users/me/avatar",
   },
 
+  // Resumable uploads
+  UPLOADS: {
+    CREATE: "/uploads",
+    DETAIL: (id: string) => `/uploads/${id}`,
+    CHUNKS: (id: string) => `/uploads/${id}/chunks`,
+    COMPLETE: (id: string) => `/uploads/${id}/complete`,
+  },
+
   // Dashboard
   DASHBOARD: {
     STATS: "/dashboard/stats",
@@ -88,7 +100,9 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  REQUEST_TIMEOUT: 408,
   CONFLICT: 409,
+  GONE: 410,
   UNPROCESSABLE_ENTITY: 422,
   TOO_MANY_REQUESTS: 429,
 
@@ -96,6 +110,41 @@ export const HTTP_STATUS = {
   INTERNAL_SERVER_ERROR: 500,
   BAD_GATEWAY: 502,
   SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
+} as const;
+
+/**
+ * Query Cache Defaults
+ */
+export const QUERY_CONFIG = {
+  STALE_TIME: 30 * 1000, // 30 seconds
+  GC_TIME: 5 * 60 * 1000, // 5 minutes after the last subscriber leaves
+} as const;
+
+/**
+ * Batch Request Defaults
+ */
+export const BATCH_CONFIG = {
+  CONCURRENCY: 4, // requests in flight at once
+} as const;
+
+/**
+ * Retry Policy Defaults
+ */
+export const RETRY_CONFIG = {
+  RETRIES: 3,
+  BASE_DELAY: 1000, // 1 second, doubled on every attempt
+  MAX_DELAY: 30 * 1000, // 30 seconds
+  MAX_ELAPSED: 60 * 1000, // give up once waiting would exceed 1 minute in total
+  IDEMPOTENT_METHODS: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  RETRYABLE_STATUSES: [
+    HTTP_STATUS.REQUEST_TIMEOUT,
+    HTTP_STATUS.TOO_MANY_REQUESTS,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR,
+    HTTP_STATUS.BAD_GATEWAY,
+    HTTP_STATUS.SERVICE_UNAVAILABLE,
+    HTTP_STATUS.GATEWAY_TIMEOUT,
+  ],
 } as const;
 
 /**
@@ -117,6 +166,85 @@ export const PAGINATION = {
   DEFAULT_PAGE: 1,
   DEFAULT_LIMIT: 10,
   MAX_LIMIT: 100,
+  PAGE_SIZE_OPTIONS: [10, 25, 50, 100],
+} as const;
+
+/**
+ * Data Table Configuration
+ */
+export const TABLE = {
+  ROW_HEIGHT: 44, // px, fixed so virtualized rows can be positioned without measuring
+  /** Rows rendered above and below the visible window */
+  OVERSCAN: 8,
+  /** Below this many rows everything is rendered */
+  VIRTUALIZE_THRESHOLD: 100,
+  FILTER_DEBOUNCE: 300, // ms
+} as const;
+
+/**
+ * Data Export Configuration
+ */
+export const EXPORT = {
+  /** Upper bound for "export all", which pages through the list endpoint */
+  MAX_ROWS: 10000,
+  PAGE_SIZE: PAGINATION.MAX_LIMIT,
+  CSV_TYPE: "text/csv;charset=utf-8",
+  XLSX_TYPE: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+} as const;
+
+/**
+ * User Management Configuration
+ */
+export const USER_ADMIN = {
+  /** Roles allowed to open the users page */
+  ROLES: ["admin", "manager"],
+  SEARCH_DEBOUNCE: 300, // ms
+  DEFAULT_SORT: "createdAt",
+  DEFAULT_ORDER: "desc",
+} as const;
+
+/**
+ * Dashboard Configuration
+ */
+export const DASHBOARD = {
+  DEFAULT_PERIOD: "30d",
+  PERIODS: [
+    { value: "7d", label: "7 days", days: 7 },
+    { value: "30d", label: "30 days", days: 30 },
+    { value: "90d", label: "90 days", days: 90 },
+    { value: "custom", label: "Custom", days: 0 },
+  ],
+  /** KPI cards, in display order */
+  KPIS: [
+    { key: "revenue", label: "Revenue" },
+    { key: "orders", label: "Orders" },
+    { key: "averageOrderValue", label: "Avg. Order Value" },
+    { key: "newUsers", label: "New Users" },
+    { key: "conversionRate", label: "Conversion Rate" },
+  ],
+  /** Longest custom range the API accepts */
+  MAX_RANGE_DAYS: 366,
+  STATS_STALE_TIME: 60 * 1000, // 1 minute
+  /** How often relative timestamps ("5 minutes ago") are re-rendered */
+  RELATIVE_TIME_TICK: 30 * 1000, // 30 seconds
+  /** Load the next activity page once the end of the feed is this close to the viewport */
+  INFINITE_SCROLL_MARGIN: "200px",
+  DEFAULT_GRANULARITY: "day",
+  GRANULARITIES: [
+    { value: "hour", label: "Hourly", hours: 1 },
+    { value: "day", label: "Daily", hours: 24 },
+    { value: "week", label: "Weekly", hours: 24 * 7 },
+    { value: "month", label: "Monthly", hours: 24 * 30 },
+  ],
+  /** Most buckets the analytics endpoint returns per series */
+  MAX_CHART_POINTS: 1000,
+  /** Analytics series, in tab order */
+  METRICS: [
+    { key: "revenue", label: "Revenue", format: "currency" },
+    { key: "orders", label: "Orders", format: "number" },
+    { key: "sessions", label: "Sessions", format: "number" },
+    { key: "newUsers", label: "New Users", format: "number" },
+  ],
 } as const;
 
 /**
@@ -151,11 +279,20 @@ export const VALIDATION = {
   },
 } as const;
 
+/**
+ * Email Verification Configuration
+ */
+export const EMAIL_VERIFICATION = {
+  RESEND_COOLDOWN: 60 * 1000, // 1 minute between resend requests
+} as const;
+
 /**
  * File Upload Configuration
  */
 export const FILE_UPLOAD = {
   MAX_SIZE: 5 * 1024 * 1024, // 5MB
+  MAX_CHUNKED_SIZE: 2 * 1024 * 1024 * 1024, // 2GB for resumable uploads
+  CHUNK_SIZE: 1024 * 1024, // 1MB per chunk
   ALLOWED_IMAGE_TYPES: ["image/jpeg", "image/png", "image/gif", "image/webp"],
   ALLOWED_DOCUMENT_TYPES: [
     "application/pdf",
@@ -181,6 +318,10 @@ export const FEATURES = {
 export const THEME = {
   DEFAULT: "light",
   OPTIONS: ["light", "dark", "auto"],
+  /** Series colors for charts, in order */
+  CHART_COLORS: ["#2563eb", "#16a34a", "#f59e0b", "#db2777", "#7c3aed", "#0891b2"],
+  /** Previous-period series are drawn in this color */
+  CHART_MUTED_COLOR: "#94a3b8",
 } as const;
 
 /**
@@ -193,8 +334,11 @@ export const ROUTES = {
   DASHBOARD: "/dashboard",
   PROFILE: "/profile",
   SETTINGS: "/settings",
+  USERS: "/users",
   FORGOT_PASSWORD: "/forgot-password",
   RESET_PASSWORD: "/reset-password",
+  VERIFY_EMAIL: "/verify-email",
+  VERIFY_EMAIL_PENDING: "/verify-email/pending",
   NOT_FOUND: "/404",
 } as const;
 
@@ -209,6 +353,15 @@ export const ERROR_MESSAGES = {
   VALIDATION_ERROR: "Please check your input and try again.",
   SERVER_ERROR: "Something went wrong on our end. Please try again later.",
   TIMEOUT: "Request timeout. Please try again.",
+  CANCELLED: "Request was cancelled.",
+  INVALID_RESPONSE: "Received an unexpected response from the server.",
+  RESET_TOKEN_INVALID: "This password reset link is invalid or has expired.",
+  VERIFY_TOKEN_INVALID: "This verification link is invalid or has expired.",
+  PASSWORD_POLICY: "Your password does not meet the requirements.",
+  FILE_TOO_LARGE: "This file is larger than the maximum allowed size.",
+  FILE_TYPE_NOT_ALLOWED: "This file type is not allowed.",
+  FILE_EMPTY: "This file is empty.",
+  EXPORT_TOO_LARGE: "Too many rows to export at once. Narrow the filters and try again.",
   UNKNOWN: "An unknown error occurred.",
 } as const;
 
@@ -223,7 +376,10 @@ export const SUCCESS_MESSAGES = {
   DELETE: "Deleted successfully!",
   UPLOAD: "Upload successful!",
   PASSWORD_RESET: "Password reset email sent!",
+  PASSWORD_RESET_COMPLETE: "Your password has been reset. You can now sign in.",
   PASSWORD_CHANGED: "Password changed successfully!",
+  EMAIL_VERIFIED: "Your email address has been verified!",
+  VERIFICATION_SENT: "Verification email sent!",
 } as const;
 
 /**
@@ -233,7 +389,8 @@ export const REGEX = {
   EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
   PHONE: /^\+?[\d\s\-()]+$/,
   URL: /^(https?:\/\/)?([\da-z.-]+)\.([a-z.]{2,6})([/\w .-]*)*\/?$/,
-  PASSWORD: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[a-zA-Z\d@$!%*?&]{8,}$/,
+  // Quick format check only; use evaluatePassword() for the configured policy
+  PASSWORD: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/,
 } as const;
 
 /**
@@ -245,4 +402,13 @@ export const ENV = {
   IS_DEVELOPMENT: process.env.NODE_ENV === "development",
   IS_PRODUCTION: process.env.NODE_ENV === "production",
   IS_TEST: process.env.NODE_ENV === "test",
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * In-memory mock API (src/mocks) for running without a backend
+ */
+export const MOCK_API = {
+  ENABLED: process.env.REACT_APP_USE_MOCK_API === "true",
+  LATENCY: Number(process.env.REACT_APP_MOCK_LATENCY || 300), // ms per request
+  ERROR_RATE: Number(process.env.REACT_APP_MOCK_ERROR_RATE || 0), // 0-1 chance of a 500
+} as const;
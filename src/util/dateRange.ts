@@ -0,0 +1,66 @@
+// Date Ranges
+// Inclusive calendar-day ranges picked in the UI, converted to the API's [from, to) instants
+
+/**
+ * Inclusive range of local calendar days, as YYYY-MM-DD strings (the <input type="date"> format)
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Local YYYY-MM-DD for a date
+ */
+export function toDateInputValue(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD string (Date.parse would read it as UTC)
+ */
+export function parseDateInputValue(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * The last `days` days, today included
+ */
+export function getLastDaysRange(days: number, now = new Date()): DateRange {
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  return { from: toDateInputValue(from), to: toDateInputValue(now) };
+}
+
+/**
+ * Whether both ends parse and the range is not reversed
+ */
+export function isValidRange(range: DateRange): boolean {
+  const from = parseDateInputValue(range.from);
+  const to = parseDateInputValue(range.to);
+  return !!from && !!to && from <= to;
+}
+
+/**
+ * Number of days in the range, both ends included
+ */
+export function getRangeDays(range: DateRange): number {
+  const from = parseDateInputValue(range.from);
+  const to = parseDateInputValue(range.to);
+  if (!from || !to) return 0;
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Query params for range endpoints: local midnight of `from` to the midnight after `to`
+ */
+export function toRangeParams(range: DateRange): { from: string; to: string } {
+  const from = parseDateInputValue(range.from) as Date;
+  const to = parseDateInputValue(range.to) as Date;
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+  return { from: from.toISOString(), to: end.toISOString() };
+}
@@ -0,0 +1,84 @@
+import { downloadFile, parseContentDisposition } from "./download";
+
+function streamResponse(parts: string[], headers: Record<string, string>) {
+  // ASCII only, which keeps the test free of TextEncoder (missing in jsdom)
+  const encoded = parts.map((part) => new Uint8Array(part.split("").map((c) => c.charCodeAt(0))));
+  return {
+    status: 200,
+    ok: true,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    body: {
+      getReader: () => {
+        let index = 0;
+        return {
+          read: async () =>
+            index < encoded.length ? { done: false, value: encoded[index++] } : { done: true },
+          cancel: async () => undefined,
+        };
+      },
+    },
+  };
+}
+
+const fetchMock = jest.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  (global as any).fetch = fetchMock;
+});
+
+describe("parseContentDisposition()", () => {
+  test("prefers the RFC 5987 UTF-8 name", () => {
+    expect(
+      parseContentDisposition(
+        `attachment; filename="resume.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`
+      )
+    ).toBe("résumé.pdf");
+  });
+
+  test("reads quoted and bare names", () => {
+    expect(parseContentDisposition('attachment; filename="Q1 \\"final\\".csv"')).toBe(
+      'Q1 "final".csv'
+    );
+    expect(parseContentDisposition("attachment; filename=report.csv")).toBe("report.csv");
+    expect(parseContentDisposition("inline")).toBeNull();
+  });
+});
+
+describe("downloadFile()", () => {
+  test("streams the body with progress and keeps the server's name and MIME type", async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse(["id,name\n", "1,Ada\n"], {
+        "content-type": "text/csv",
+        "content-length": "14",
+        "content-disposition": 'attachment; filename="users.csv"',
+      })
+    );
+    const onDownloadProgress = jest.fn();
+
+    const result = await downloadFile("/exports/users", undefined, {
+      requiresAuth: false,
+      save: false,
+      onDownloadProgress,
+    });
+
+    expect(result.filename).toBe("users.csv");
+    expect(result.type).toBe("text/csv");
+    expect(result.blob.size).toBe(14);
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({ loaded: 14, total: 14, percent: 100 });
+  });
+  test("strips control characters and path separators from the server's name", async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse(["x"], {
+        "content-disposition": "attachment; filename*=UTF-8''..%2Freport%07%0A.csv",
+      })
+    );
+
+    const result = await downloadFile("/exports/users", undefined, {
+      requiresAuth: false,
+      save: false,
+    });
+
+    expect(result.filename).toBe(".._report.csv");
+  });
+});
@@ -0,0 +1,94 @@
+// File Downloads
+// Binary downloads with progress, Content-Disposition filenames and saving to disk
+
+import { HTTP_METHODS } from "./config";
+import { request, RequestOptions } from "./request";
+import { stripControlChars } from "./strings";
+
+export interface DownloadOptions extends Omit<RequestOptions, "responseType"> {
+  /** Set false to only fetch the Blob (e.g. for previews) */
+  save?: boolean;
+}
+
+export interface DownloadResult {
+  blob: Blob;
+  filename: string;
+  /** MIME type reported by the server */
+  type: string;
+}
+
+/**
+ * Extracts the filename from a Content-Disposition header,
+ * preferring the RFC 5987 `filename*` form (e.g. filename*=UTF-8''r%C3%A9sum%C3%A9.pdf)
+ */
+export function parseContentDisposition(header: string | null): string | null {
+  if (!header) return null;
+
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ""));
+    } catch {
+      // Malformed encoding: fall back to the plain filename
+    }
+  }
+
+  const plain = /filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i.exec(header);
+  if (!plain) return null;
+  const name = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, "$1") : plain[1].trim();
+  return name || null;
+}
+
+/**
+ * Drops control characters and replaces path separators in a name the browser will save
+ */
+function sanitizeFilename(name: string): string {
+  return stripControlChars(name).replace(/[\\/]/g, "_");
+}
+
+/**
+ * Saves in-memory data as a file
+ */
+export function saveFile(data: string | Blob, filename: string, type?: string): void {
+  const blob = typeof data === "string" ? new Blob([data], { type: type || "text/plain" }) : data;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Downloads an endpoint's body as a file, named by the caller, the server, or the URL
+ */
+export async function downloadFile(
+  endpoint: string,
+  filename?: string,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
+  const { save = true, ...requestOptions } = options;
+
+  const response = await request<Blob>(endpoint, {
+    method: HTTP_METHODS.GET,
+    ...requestOptions,
+    responseType: "blob",
+  });
+
+  const blob = response.data;
+  const name = sanitizeFilename(
+    filename ||
+      parseContentDisposition(response.headers?.get("content-disposition") ?? null) ||
+      endpoint.split("?")[0].split("/").pop() ||
+      "download"
+  );
+
+  if (save) {
+    saveFile(blob, name);
+  }
+
+  return { blob, filename: name, type: blob.type };
+}
@@ -0,0 +1,116 @@
+import { resetMockApi, setupMockApi } from "../mocks/testUtils";
+import type { User } from "../types";
+import { ENDPOINTS } from "./config";
+import {
+  escapeCsvField,
+  ExportColumn,
+  ExportTooLargeError,
+  fetchAllPages,
+  toCsv,
+  toXlsx,
+} from "./export";
+import { crc32, encodeUtf8, getColumnName } from "./xlsx";
+
+interface Row {
+  name: string;
+  amount: number;
+  createdAt: string;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { header: "Name", value: (row) => row.name },
+  { header: "Amount", value: (row) => row.amount },
+  {
+    header: "Created",
+    value: (row) => row.createdAt,
+    type: "date",
+    dateOptions: { timeZone: "UTC" },
+  },
+];
+
+describe("toCsv()", () => {
+  test("quotes, formats and starts with a BOM", () => {
+    const csv = toCsv(
+      [
+        { name: 'Ada "The Countess", Lovelace', amount: 1234.5, createdAt: "2024-03-05T10:00:00Z" },
+        { name: "=HYPERLINK()", amount: -7, createdAt: "" },
+      ],
+      COLUMNS
+    );
+
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv.slice(1).split("\r\n")).toEqual([
+      "Name,Amount,Created",
+      '"Ada ""The Countess"", Lovelace","1,234.50","Mar 5, 2024"',
+      "'=HYPERLINK(),-7,",
+      "",
+    ]);
+  });
+
+  test("honours the delimiter", () => {
+    expect(escapeCsvField("a;b", ";")).toBe('"a;b"');
+    expect(escapeCsvField("a,b", ";")).toBe("a,b");
+    expect(escapeCsvField(" padded ")).toBe('" padded "');
+  });
+});
+
+describe("toXlsx()", () => {
+  test("writes a stored zip with the workbook parts", () => {
+    const bytes = toXlsx([{ name: "Zoë", amount: 3, createdAt: "2024-03-05" }], COLUMNS, "Data");
+    const text = String.fromCharCode(...Array.from(bytes));
+
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    ["[Content_Types].xml", "xl/workbook.xml", "xl/worksheets/sheet1.xml"].forEach((part) =>
+      expect(text).toContain(part)
+    );
+    expect(text).toContain('<c r="B2"><v>3</v></c>');
+    expect(text).toContain('<sheet name="Data"');
+  });
+
+  test("drops control characters XML cannot hold but keeps line breaks", () => {
+    const bytes = toXlsx(
+      [{ name: "a\u0007<b>\r\nc", amount: 1, createdAt: "" }],
+      COLUMNS.slice(0, 1)
+    );
+    const text = String.fromCharCode(...Array.from(bytes));
+
+    expect(text).toContain(">a&lt;b&gt;\r\nc</t>");
+  });
+
+  test("helpers", () => {
+    expect(crc32(encodeUtf8("123456789"))).toBe(0xcbf43926);
+    expect(Array.from(encodeUtf8("é😀"))).toEqual([0xc3, 0xa9, 0xf0, 0x9f, 0x98, 0x80]);
+    expect([0, 25, 26, 701, 702].map(getColumnName)).toEqual(["A", "Z", "AA", "ZZ", "AAA"]);
+  });
+});
+
+describe("fetchAllPages()", () => {
+  beforeEach(async () => {
+    await setupMockApi();
+  });
+
+  afterEach(resetMockApi);
+
+  test("collects every page", async () => {
+    const onProgress = jest.fn();
+    const users = await fetchAllPages<User>(ENDPOINTS.USERS.LIST, { pageSize: 25, onProgress });
+
+    expect(users).toHaveLength(60);
+    expect(new Set(users.map(({ id }) => id)).size).toBe(60);
+    expect(onProgress.mock.calls).toEqual([
+      [25, 60],
+      [50, 60],
+      [60, 60],
+    ]);
+  });
+
+  test("refuses lists over the row limit", async () => {
+    const error = await fetchAllPages<User>(ENDPOINTS.USERS.LIST, { maxRows: 50 }).catch(
+      (err) => err
+    );
+
+    expect(error).toBeInstanceOf(ExportTooLargeError);
+    expect(error).toMatchObject({ total: 60 });
+    expect(error).not.toHaveProperty("status");
+  });
+});
@@ -0,0 +1,185 @@
+// Data Export
+// CSV and XLSX serialization of typed rows, and paging through list endpoints for "export all"
+
+import type { AnySchema } from "ajv";
+import type { Paginated } from "../types";
+import { ERROR_MESSAGES, EXPORT } from "./config";
+import { get } from "./request";
+import { saveFile } from "./download";
+import { createXlsx, XlsxCell } from "./xlsx";
+import { formatDate, formatNumber } from "./index";
+
+export type ExportFormat = "csv" | "xlsx";
+
+/**
+ * How a value is written: dates go through formatDate, numbers through formatNumber (CSV only;
+ * XLSX keeps them numeric so they can be summed)
+ */
+export type ExportValueType = "text" | "number" | "date";
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+  /** Inferred from the value when omitted; ISO date strings need "date" */
+  type?: ExportValueType;
+  /** Decimal places for numbers; defaults to 0 for integers and 2 otherwise */
+  decimals?: number;
+  dateOptions?: Intl.DateTimeFormatOptions;
+}
+
+export interface CsvOptions {
+  delimiter?: string;
+  /** Byte order mark so Excel opens the file as UTF-8 */
+  bom?: boolean;
+}
+
+export interface ExportOptions extends CsvOptions {
+  format: ExportFormat;
+  /** Without extension */
+  filename: string;
+  /** Worksheet name for XLSX */
+  sheetName?: string;
+}
+
+/**
+ * Thrown by fetchAllPages before downloading when the list is over EXPORT.MAX_ROWS.
+ * A client-side limit, so deliberately not an ApiError with a status.
+ */
+export class ExportTooLargeError extends Error {
+  total: number;
+
+  constructor(total: number) {
+    super(ERROR_MESSAGES.EXPORT_TOO_LARGE);
+    this.name = "ExportTooLargeError";
+    this.total = total;
+  }
+}
+
+function resolveType<T>(column: ExportColumn<T>, value: unknown): ExportValueType {
+  if (column.type) return column.type;
+  if (value instanceof Date) return "date";
+  if (typeof value === "number") return "number";
+  return "text";
+}
+
+/**
+ * Display text of a value, formatted the same way the UI shows it
+ */
+export function formatExportValue<T>(column: ExportColumn<T>, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  const type = resolveType(column, value);
+  if (type === "number" && typeof value === "number" && Number.isFinite(value)) {
+    return formatNumber(value, column.decimals ?? (Number.isInteger(value) ? 0 : 2));
+  }
+  if (type === "date" && (value instanceof Date || typeof value === "string")) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? String(value) : formatDate(date, column.dateOptions);
+  }
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180) and defuses text that spreadsheet apps would run as
+ * a formula (=, +, -, @)
+ */
+export function escapeCsvField(text: string, delimiter = ",", isText = true): string {
+  const safe = isText && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return safe.includes(delimiter) || /["\r\n]/.test(safe) || safe !== safe.trim()
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+}
+
+/**
+ * Serializes rows to CSV with a header line; lines end in CRLF as Excel expects
+ */
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[], options: CsvOptions = {}): string {
+  const { delimiter = ",", bom = true } = options;
+  const lines = [columns.map(({ header }) => escapeCsvField(header, delimiter)).join(delimiter)];
+  rows.forEach((row) => {
+    lines.push(
+      columns
+        .map((column) => {
+          const value = column.value(row);
+          const isText = resolveType(column, value) === "text";
+          return escapeCsvField(formatExportValue(column, value), delimiter, isText);
+        })
+        .join(delimiter)
+    );
+  });
+  return (bom ? "\uFEFF" : "") + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Serializes rows to an XLSX workbook; numbers and booleans stay typed, the rest is text
+ */
+export function toXlsx<T>(rows: T[], columns: ExportColumn<T>[], sheetName = "Sheet1"): Uint8Array {
+  const body = rows.map((row) =>
+    columns.map((column): XlsxCell => {
+      const value = column.value(row);
+      const type = resolveType(column, value);
+      if (type === "number" && typeof value === "number") return value;
+      if (typeof value === "boolean") return value;
+      return formatExportValue(column, value);
+    })
+  );
+  return createXlsx({
+    name: sheetName,
+    rows: [columns.map(({ header }) => header), ...body],
+    headerRows: 1,
+  });
+}
+
+/**
+ * Serializes rows and saves them as `<filename>.csv` or `<filename>.xlsx`
+ */
+export function exportRows<T>(rows: T[], columns: ExportColumn<T>[], options: ExportOptions): void {
+  const { format, filename, sheetName, ...csvOptions } = options;
+  if (format === "xlsx") {
+    const blob = new Blob([toXlsx(rows, columns, sheetName)], { type: EXPORT.XLSX_TYPE });
+    saveFile(blob, `${filename}.xlsx`);
+  } else {
+    saveFile(toCsv(rows, columns, csvOptions), `${filename}.csv`, EXPORT.CSV_TYPE);
+  }
+}
+
+export interface FetchAllPagesOptions {
+  params?: Record<string, string | number | boolean | null | undefined>;
+  /** Schema of one page (e.g. userListSchema) */
+  schema?: AnySchema;
+  pageSize?: number;
+  maxRows?: number;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Collects every item of a paginated list endpoint, one page at a time
+ */
+export async function fetchAllPages<T>(
+  endpoint: string,
+  options: FetchAllPagesOptions = {}
+): Promise<T[]> {
+  const {
+    params,
+    schema,
+    pageSize = EXPORT.PAGE_SIZE,
+    maxRows = EXPORT.MAX_ROWS,
+    signal,
+    onProgress,
+  } = options;
+  const items: T[] = [];
+
+  for (let page = 1; ; page++) {
+    const { data } = await get<Paginated<T>>(endpoint, {
+      params: { ...params, page, limit: pageSize },
+      schema,
+      signal,
+    });
+    // Checked on the first page so nothing large is downloaded just to be refused
+    if (data.meta.total > maxRows) throw new ExportTooLargeError(data.meta.total);
+    items.push(...data.items);
+    onProgress?.(items.length, data.meta.total);
+    if (page >= data.meta.totalPages || data.items.length === 0) return items;
+  }
+}
@@ -1,11 +1,26 @@
 // Utils Module - Central export point
 // Export all utility functions and configurations
 
+import * as authStorage from "./authStorage";
+import type { User } from "../types";
+import { evaluatePassword } from "./passwordPolicy";
+import { saveFile } from "./download";
+
 // Export all configuration
 export * from "./config";
 
 // Export all request utilities
 export * from "./request";
+export * from "./interceptors";
+export * from "./transport";
+export * from "./queryCache";
+export * from "./upload";
+export * from "./download";
+export * from "./dateRange";
+export * from "./strings";
+
+// Export password policy
+export * from "./passwordPolicy";
 
 // ============================================================
 // STRING UTILITIES
@@ -72,12 +87,10 @@ export function isValidEmail(email: string): boolean {
 }
 
 /**
- * Validates password strength
+ * Validates password against VALIDATION.PASSWORD
  */
 export function isStrongPassword(password: string): boolean {
-  // At least 8 chars, 1 uppercase, 1 lowercase, 1 number
-  const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/;
-  return passwordRegex.test(password);
+  return evaluatePassword(password).valid;
 }
 
 /**
@@ -104,60 +117,39 @@ export function isValidPhone(phone: string): boolean {
 // AUTHENTICATION UTILITIES
 // ============================================================
 
-/**
- * Storage keys constants (duplicated here to avoid circular import)
- */
-const AUTH_STORAGE_KEYS = {
-  TOKEN: "company_token",
-  USER: "company_user",
-  REFRESH_TOKEN: "company_refresh_token",
-} as const;
-
 /**
  * Checks if user is authenticated
  */
 export function isAuthenticated(): boolean {
-  return !!localStorage.getItem(AUTH_STORAGE_KEYS.TOKEN);
+  return !!authStorage.getAuthToken();
 }
 
 /**
  * Gets current user from localStorage
  */
-export function getCurrentUser(): { name: string; email: string } | null {
-  const userStr = localStorage.getItem(AUTH_STORAGE_KEYS.USER);
-  if (!userStr) return null;
-  try {
-    return JSON.parse(userStr);
-  } catch {
-    return null;
-  }
+export function getCurrentUser(): User | null {
+  return authStorage.getStoredUser<User>();
 }
 
 /**
  * Gets authentication token
  */
 export function getAuthToken(): string | null {
-  return localStorage.getItem(AUTH_STORAGE_KEYS.TOKEN);
+  return authStorage.getAuthToken();
 }
 
 /**
  * Saves authentication data
  */
 export function saveAuthData(token: string, user: any, refreshToken?: string): void {
-  localStorage.setItem(AUTH_STORAGE_KEYS.TOKEN, token);
-  localStorage.setItem(AUTH_STORAGE_KEYS.USER, JSON.stringify(user));
-  if (refreshToken) {
-    localStorage.setItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
-  }
+  authStorage.saveSession({ token, user, refreshToken });
 }
 
 /**
  * Clears authentication data
  */
 export function clearAuth(): void {
-  localStorage.removeItem(AUTH_STORAGE_KEYS.TOKEN);
-  localStorage.removeItem(AUTH_STORAGE_KEYS.USER);
-  localStorage.removeItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+  authStorage.clearSession();
 }
 
 // ============================================================
@@ -232,6 +224,16 @@ export function formatNumber(num: number, decimals = 0): string {
   }).format(num);
 }
 
+/**
+ * Formats number in short form (e.g. 1.2K, 3.4M) for axes and tight spaces
+ */
+export function formatCompactNumber(num: number): string {
+  return new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(num);
+}
+
 /**
  * Formats currency
  */
@@ -352,17 +354,18 @@ export function omit<T extends object, K extends keyof T>(
 // ============================================================
 
 /**
- * Debounces a function
+ * Debounces a function; `cancel()` drops a pending call (e.g. on unmount)
  */
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   delay: number
-): (...args: Parameters<T>) => void {
+): ((...args: Parameters<T>) => void) & { cancel: () => void } {
   let timeoutId: NodeJS.Timeout;
-  return (...args: Parameters<T>) => {
+  const debounced = (...args: Parameters<T>) => {
     clearTimeout(timeoutId);
     timeoutId = setTimeout(() => func(...args), delay);
   };
+  return Object.assign(debounced, { cancel: () => clearTimeout(timeoutId) });
 }
 
 /**
@@ -406,18 +409,11 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 }
 
 /**
- * Downloads a file
+ * Saves in-memory data as a file
+ * @deprecated Use saveFile; downloadFile in ./download fetches an endpoint instead
  */
 export function downloadFile(data: string | Blob, filename: string): void {
-  const blob = typeof data === "string" ? new Blob([data]) : data;
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  saveFile(data, filename);
 }
 
 /**
@@ -428,6 +424,16 @@ export function getQueryParam(param: string): string | null {
   return urlParams.get(param);
 }
 
+/**
+ * Returns an in-app path safe to redirect to (rejects absolute/protocol-relative URLs)
+ */
+export function getSafeRedirectPath(path: string | null | undefined, fallback: string): string {
+  if (!path || !path.startsWith("/") || path.startsWith("//") || path.startsWith("/\\")) {
+    return fallback;
+  }
+  return path;
+}
+
 /**
  * Detects if mobile device
  */
@@ -0,0 +1,90 @@
+// HTTP Interceptors
+// Ordered, ejectable request/response/error hooks for the request client
+
+import type { ApiError, ApiResponse, RequestOptions } from "./request";
+
+/**
+ * Fully resolved request, as seen by interceptors and the transport
+ */
+export interface RequestConfig extends Omit<RequestOptions, "headers"> {
+  endpoint: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+}
+
+export type RequestInterceptor = (
+  config: RequestConfig
+) => RequestConfig | Promise<RequestConfig>;
+
+export type ResponseInterceptor = (
+  response: ApiResponse,
+  config: RequestConfig
+) => ApiResponse | Promise<ApiResponse>;
+
+/**
+ * Return an ApiResponse to recover, or an (optionally different) error to pass it on
+ */
+export type ErrorInterceptor = (
+  error: ApiError,
+  config: RequestConfig
+) => ApiError | ApiResponse | Promise<ApiError | ApiResponse>;
+
+/**
+ * Registration options
+ */
+export interface InterceptorOptions {
+  /** Lower runs first; ties run in registration order */
+  order?: number;
+}
+
+interface InterceptorEntry<F> {
+  id: number;
+  order: number;
+  handler: F;
+}
+
+/**
+ * Registry of one kind of interceptor
+ */
+export interface InterceptorChain<F> {
+  use: (handler: F, options?: InterceptorOptions) => () => void;
+  clear: () => void;
+  list: () => F[];
+}
+
+let nextId = 0;
+
+/**
+ * Creates an ordered interceptor registry
+ */
+export function createInterceptorChain<F>(): InterceptorChain<F> {
+  let entries: InterceptorEntry<F>[] = [];
+
+  return {
+    use(handler, options = {}) {
+      const entry = { id: nextId++, order: options.order ?? 0, handler };
+      entries = [...entries, entry].sort((a, b) => a.order - b.order || a.id - b.id);
+
+      // Eject handle
+      return () => {
+        entries = entries.filter((item) => item.id !== entry.id);
+      };
+    },
+    clear() {
+      entries = [];
+    },
+    list() {
+      return entries.map((entry) => entry.handler);
+    },
+  };
+}
+
+/**
+ * Registered interceptors used by request()
+ */
+export const interceptors = {
+  request: createInterceptorChain<RequestInterceptor>(),
+  response: createInterceptorChain<ResponseInterceptor>(),
+  error: createInterceptorChain<ErrorInterceptor>(),
+};
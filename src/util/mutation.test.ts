@@ -0,0 +1,70 @@
+import { runMutation } from "./mutation";
+import { ApiError } from "./request";
+import { getQueryState, removeQueries, setQueryData, subscribeQuery } from "./queryCache";
+
+const list = { items: [{ id: "1", name: "Ada" }, { id: "2", name: "Bob" }] };
+const rename = {
+  queryKey: "/users",
+  update: (previous: typeof list, vars: { id: string; name: string }) => ({
+    items: previous.items.map((user) => (user.id === vars.id ? { ...user, name: vars.name } : user)),
+  }),
+};
+
+afterEach(() => {
+  removeQueries();
+});
+
+describe("runMutation", () => {
+  test("applies optimistic updates before the request resolves", async () => {
+    setQueryData("/users?page=1", list);
+    let resolve!: (value: any) => void;
+    const pending = runMutation(
+      {
+        mutationFn: () => new Promise<any>((r) => (resolve = r)),
+        optimistic: [rename],
+      },
+      { id: "1", name: "Ada L." }
+    );
+
+    expect(getQueryState("/users?page=1").data.items[0].name).toBe("Ada L.");
+    resolve({ data: { id: "1", name: "Ada L." }, success: true, status: 200 });
+    await expect(pending).resolves.toEqual({ id: "1", name: "Ada L." });
+  });
+
+  test("rolls back every touched query on ApiError", async () => {
+    setQueryData("/users?page=1", list);
+    setQueryData("/users?page=2", list);
+    const onError = jest.fn();
+
+    await expect(
+      runMutation(
+        {
+          mutationFn: () => Promise.reject(new ApiError("Forbidden", 403)),
+          optimistic: [rename],
+          onError,
+        },
+        { id: "2", name: "Robert" }
+      )
+    ).rejects.toBeInstanceOf(ApiError);
+
+    expect(getQueryState("/users?page=1").data).toEqual(list);
+    expect(getQueryState("/users?page=2").data).toEqual(list);
+    expect(onError).toHaveBeenCalledWith(expect.any(ApiError), { id: "2", name: "Robert" });
+  });
+
+  test("invalidates related keys after success", async () => {
+    setQueryData("/users?page=1", list);
+    const unsubscribe = subscribeQuery("/users?page=1", () => undefined);
+
+    await runMutation(
+      {
+        mutationFn: async () => ({ data: null, success: true, status: 204 }),
+        invalidate: ["/users"],
+      },
+      undefined
+    );
+
+    expect(getQueryState("/users?page=1").isInvalidated).toBe(true);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,101 @@
+// Mutations
+// Write requests with optimistic cache updates, rollback on failure and query invalidation
+
+import { ApiError, ApiResponse } from "./request";
+import {
+  cancelQuery,
+  getQueryKeys,
+  getQueryState,
+  invalidateQueries,
+  setQueryData,
+} from "./queryCache";
+import { ERROR_MESSAGES } from "./config";
+
+/**
+ * Optimistic change applied to every cached query matching queryKey
+ */
+export interface OptimisticUpdate<TVariables> {
+  /** Key prefix, or a predicate over cache keys */
+  queryKey: string | ((key: string) => boolean);
+  update: (previous: any, variables: TVariables) => any;
+}
+
+export interface MutationOptions<TVariables, TData> {
+  mutationFn: (variables: TVariables) => Promise<ApiResponse<TData>>;
+  optimistic?: OptimisticUpdate<TVariables>[];
+  /** Key prefixes to invalidate after success */
+  invalidate?: string[] | ((data: TData, variables: TVariables) => string[]);
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  onError?: (error: ApiError, variables: TVariables) => void;
+}
+
+interface Snapshot {
+  key: string;
+  data: any;
+}
+
+/**
+ * Apply optimistic updates and return what is needed to undo them
+ */
+function applyOptimisticUpdates<TVariables>(
+  updates: OptimisticUpdate<TVariables>[],
+  variables: TVariables
+): Snapshot[] {
+  const snapshots: Snapshot[] = [];
+
+  updates.forEach(({ queryKey, update }) => {
+    getQueryKeys(queryKey).forEach((key) => {
+      const previous = getQueryState(key).data;
+      if (previous === undefined) return;
+
+      cancelQuery(key);
+      snapshots.push({ key, data: previous });
+      setQueryData(key, update(previous, variables));
+    });
+  });
+
+  return snapshots;
+}
+
+/**
+ * Restore cache entries captured before the optimistic update
+ */
+function rollback(snapshots: Snapshot[]): void {
+  snapshots.forEach(({ key, data }) => setQueryData(key, data));
+}
+
+/**
+ * Runs a mutation: optimistic update, request, rollback on error, invalidation on success
+ */
+export async function runMutation<TVariables, TData>(
+  options: MutationOptions<TVariables, TData>,
+  variables: TVariables
+): Promise<TData> {
+  const snapshots = applyOptimisticUpdates(options.optimistic || [], variables);
+
+  let data: TData;
+  try {
+    const response = await options.mutationFn(variables);
+    data = response.data;
+  } catch (thrown: any) {
+    rollback(snapshots);
+    const error =
+      thrown instanceof ApiError
+        ? thrown
+        : new ApiError(thrown?.message || ERROR_MESSAGES.UNKNOWN, 0, thrown);
+    options.onError?.(error, variables);
+    throw error;
+  }
+
+  const keys =
+    typeof options.invalidate === "function"
+      ? options.invalidate(data, variables)
+      : options.invalidate || [];
+  // Refetch in the background; the optimistic data stays on screen meanwhile
+  keys.forEach((key) => {
+    invalidateQueries(key);
+  });
+
+  options.onSuccess?.(data, variables);
+  return data;
+}
@@ -0,0 +1,49 @@
+import { evaluatePassword, getPasswordErrors } from "./passwordPolicy";
+import { VALIDATION } from "./config";
+
+describe("evaluatePassword", () => {
+  test("reports each configured rule", () => {
+    const result = evaluatePassword("abc");
+
+    expect(result.valid).toBe(false);
+    expect(result.rules.map((rule) => rule.id)).toEqual([
+      "minLength",
+      "maxLength",
+      "uppercase",
+      "lowercase",
+      "number",
+    ]);
+    expect(result.rules.find((rule) => rule.id === "lowercase")?.passed).toBe(true);
+    expect(result.rules.find((rule) => rule.id === "minLength")?.passed).toBe(false);
+  });
+
+  test("accepts any special characters (no allow-list)", () => {
+    expect(evaluatePassword("Correct#Horse~9").valid).toBe(true);
+  });
+
+  test("enforces MAX_LENGTH", () => {
+    const tooLong = "Aa1" + "x".repeat(VALIDATION.PASSWORD.MAX_LENGTH);
+    expect(getPasswordErrors(tooLong)).toEqual([
+      `At most ${VALIDATION.PASSWORD.MAX_LENGTH} characters`,
+    ]);
+  });
+
+  test("honours REQUIRE_SPECIAL_CHAR when enabled", () => {
+    const policy = { ...VALIDATION.PASSWORD, REQUIRE_SPECIAL_CHAR: true };
+    expect(evaluatePassword("Password123", undefined, policy).valid).toBe(false);
+    expect(evaluatePassword("Password123!", undefined, policy).valid).toBe(true);
+  });
+
+  test("rejects passwords containing personal details", () => {
+    const result = evaluatePassword("Johnathan2024", { name: "Johnathan Doe" });
+    expect(result.valid).toBe(false);
+    expect(result.rules.find((rule) => rule.id === "notPersonal")?.passed).toBe(false);
+  });
+
+  test("scores longer, more varied passwords higher", () => {
+    const weak = evaluatePassword("Password1");
+    const strong = evaluatePassword("v8#Lq!zT2m@Rw9pK");
+    expect(strong.score).toBeGreaterThan(weak.score);
+    expect(strong.strength).toBe("strong");
+  });
+});
@@ -0,0 +1,159 @@
+// Password Policy
+// Single evaluator for password rules (driven by VALIDATION.PASSWORD) and strength scoring
+
+import { VALIDATION } from "./config";
+
+/**
+ * Policy shape (matches VALIDATION.PASSWORD)
+ */
+export interface PasswordPolicy {
+  MIN_LENGTH: number;
+  MAX_LENGTH: number;
+  REQUIRE_UPPERCASE: boolean;
+  REQUIRE_LOWERCASE: boolean;
+  REQUIRE_NUMBER: boolean;
+  REQUIRE_SPECIAL_CHAR: boolean;
+}
+
+export type PasswordRuleId =
+  | "minLength"
+  | "maxLength"
+  | "uppercase"
+  | "lowercase"
+  | "number"
+  | "special"
+  | "notPersonal";
+
+/**
+ * Result of a single rule
+ */
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string;
+  passed: boolean;
+}
+
+export type PasswordStrength = "very-weak" | "weak" | "fair" | "good" | "strong";
+
+/**
+ * Full evaluation of a password
+ */
+export interface PasswordEvaluation {
+  valid: boolean;
+  rules: PasswordRuleResult[];
+  score: 0 | 1 | 2 | 3 | 4;
+  strength: PasswordStrength;
+}
+
+/**
+ * Personal details the password should not contain
+ */
+export interface PasswordContext {
+  email?: string;
+  name?: string;
+}
+
+const STRENGTH_LABELS: PasswordStrength[] = ["very-weak", "weak", "fair", "good", "strong"];
+
+/**
+ * Lowercased fragments (>= 3 chars) of the user's name and email local part
+ */
+function getPersonalTokens(context?: PasswordContext): string[] {
+  if (!context) return [];
+  const parts = [
+    ...(context.name || "").split(/\s+/),
+    ...(context.email || "").split("@")[0].split(/[._+-]/),
+  ];
+  return parts.map((part) => part.toLowerCase()).filter((part) => part.length >= 3);
+}
+
+/**
+ * Scores entropy-ish strength from 0 (very weak) to 4 (strong)
+ */
+function scorePassword(password: string, policy: PasswordPolicy, containsPersonal: boolean): number {
+  if (!password) return 0;
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length;
+  let score = 0;
+
+  if (password.length >= policy.MIN_LENGTH) score += 1;
+  if (password.length >= policy.MIN_LENGTH + 4) score += 1;
+  if (classes >= 3) score += 1;
+  if (classes === 4 || password.length >= 20) score += 1;
+
+  // Penalize repeats ("aaa") and runs ("abc", "123")
+  if (/(.)\1{2,}/.test(password)) score -= 1;
+  if (/(012|123|234|345|456|567|678|789|abc|bcd|cde|def|qwe|wer|ert|asd)/i.test(password)) {
+    score -= 1;
+  }
+  if (containsPersonal) score -= 2;
+
+  return Math.max(0, Math.min(4, score));
+}
+
+/**
+ * Evaluates a password against the policy
+ */
+export function evaluatePassword(
+  password: string,
+  context?: PasswordContext,
+  policy: PasswordPolicy = VALIDATION.PASSWORD
+): PasswordEvaluation {
+  const lower = password.toLowerCase();
+  const containsPersonal = getPersonalTokens(context).some((token) => lower.includes(token));
+
+  const rules: PasswordRuleResult[] = [
+    {
+      id: "minLength",
+      label: `At least ${policy.MIN_LENGTH} characters`,
+      passed: password.length >= policy.MIN_LENGTH,
+    },
+    {
+      id: "maxLength",
+      label: `At most ${policy.MAX_LENGTH} characters`,
+      passed: password.length <= policy.MAX_LENGTH,
+    },
+  ];
+
+  if (policy.REQUIRE_UPPERCASE) {
+    rules.push({ id: "uppercase", label: "An uppercase letter", passed: /[A-Z]/.test(password) });
+  }
+  if (policy.REQUIRE_LOWERCASE) {
+    rules.push({ id: "lowercase", label: "A lowercase letter", passed: /[a-z]/.test(password) });
+  }
+  if (policy.REQUIRE_NUMBER) {
+    rules.push({ id: "number", label: "A number", passed: /\d/.test(password) });
+  }
+  if (policy.REQUIRE_SPECIAL_CHAR) {
+    rules.push({
+      id: "special",
+      label: "A special character",
+      passed: /[^A-Za-z0-9]/.test(password),
+    });
+  }
+  if (context) {
+    rules.push({
+      id: "notPersonal",
+      label: "Does not contain your name or email",
+      passed: !containsPersonal,
+    });
+  }
+
+  const score = scorePassword(password, policy, containsPersonal) as PasswordEvaluation["score"];
+
+  return {
+    valid: rules.every((rule) => rule.passed),
+    rules,
+    score,
+    strength: STRENGTH_LABELS[score],
+  };
+}
+
+/**
+ * Lists failed rule labels (empty when the password is valid)
+ */
+export function getPasswordErrors(password: string, context?: PasswordContext): string[] {
+  return evaluatePassword(password, context)
+    .rules.filter((rule) => !rule.passed)
+    .map((rule) => rule.label);
+}
@@ -0,0 +1,107 @@
+import {
+  buildQueryKey,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  removeQueries,
+  setQueryData,
+  subscribeQuery,
+} from "./queryCache";
+
+afterEach(() => {
+  removeQueries();
+});
+
+describe("queryCache", () => {
+  test("builds keys independent of param order and skips empty params", () => {
+    expect(buildQueryKey("/users", { page: 2, q: "ada", role: undefined })).toBe(
+      buildQueryKey("/users", { q: "ada", page: 2 })
+    );
+    expect(buildQueryKey("/users", {})).toBe("/users");
+  });
+
+  test("deduplicates concurrent fetches of the same key", async () => {
+    const fetcher = jest.fn().mockResolvedValue({ total: 3 });
+
+    const [a, b] = await Promise.all([
+      fetchQuery("/dashboard/stats", fetcher),
+      fetchQuery("/dashboard/stats", fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(a).toBe(b);
+  });
+
+  test("serves fresh data from cache and refetches once stale", async () => {
+    const fetcher = jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await fetchQuery("/k", fetcher, { staleTime: 60000 });
+    await expect(fetchQuery("/k", fetcher)).resolves.toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await expect(fetchQuery("/k", fetcher, { staleTime: 0, force: true })).resolves.toBe(2);
+    expect(getQueryState("/k").data).toBe(2);
+  });
+
+  test("keeps previous data when a background refetch fails", async () => {
+    setQueryData("/k", "cached");
+    await expect(fetchQuery("/k", () => Promise.reject(new Error("down")), { force: true }))
+      .rejects.toThrow("down");
+
+    const state = getQueryState("/k");
+    expect(state.data).toBe("cached");
+    expect(state.status).toBe("success");
+    expect(state.error?.message).toBe("down");
+  });
+
+  test("invalidates by prefix and refetches only subscribed queries", async () => {
+    const listFetcher = jest.fn().mockResolvedValue(["a"]);
+    const detailFetcher = jest.fn().mockResolvedValue({ id: "a" });
+    await fetchQuery("/users?page=1", listFetcher);
+    await fetchQuery("/users/a", detailFetcher);
+    const unsubscribe = subscribeQuery("/users?page=1", () => undefined);
+
+    await invalidateQueries("/users");
+
+    expect(listFetcher).toHaveBeenCalledTimes(2);
+    expect(detailFetcher).toHaveBeenCalledTimes(1);
+    expect(getQueryState("/users/a").isInvalidated).toBe(true);
+    unsubscribe();
+  });
+
+  test("matches prefixes on path-segment boundaries only", async () => {
+    const exportFetcher = jest.fn().mockResolvedValue("csv");
+    await fetchQuery("/users-export", exportFetcher);
+    await fetchQuery("/users?page=1", () => Promise.resolve(["a"]));
+
+    await invalidateQueries("/users");
+    removeQueries("/users");
+
+    expect(getQueryState("/users-export").isInvalidated).toBe(false);
+    expect(getQueryState("/users-export").data).toBe("csv");
+    expect(getQueryState("/users?page=1").status).toBe("idle");
+  });
+
+  test("aborts in-flight fetches and resets subscribed entries on remove", async () => {
+    let signal: AbortSignal | undefined;
+    fetchQuery("/k", (fetchSignal) => {
+      signal = fetchSignal;
+      return new Promise(() => undefined);
+    });
+    const listener = jest.fn();
+    const unsubscribe = subscribeQuery("/k", listener);
+
+    removeQueries();
+
+    expect(signal?.aborted).toBe(true);
+    expect(listener).toHaveBeenCalled();
+    expect(getQueryState("/k")).toMatchObject({ status: "idle", isFetching: false });
+
+    // The entry stays attached to its subscriber, so later fetches still notify it
+    listener.mockClear();
+    await fetchQuery("/k", () => Promise.resolve(1));
+    expect(listener).toHaveBeenCalled();
+    expect(getQueryState("/k").data).toBe(1);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,337 @@
+// Query Cache
+// Shared cache for GET requests: deduplication, stale-while-revalidate, invalidation and GC
+
+import { QUERY_CONFIG } from "./config";
+import { ApiError, get, isCancelledError, RequestOptions } from "./request";
+
+export type QueryParams = NonNullable<RequestOptions["params"]>;
+
+export type QueryStatus = "idle" | "loading" | "success" | "error";
+
+/**
+ * Snapshot of a cached query (replaced, never mutated, on every change)
+ */
+export interface QueryState<T = any> {
+  data: T | undefined;
+  error: ApiError | null;
+  status: QueryStatus;
+  isFetching: boolean;
+  updatedAt: number;
+  /** Set by invalidate(); forces the next read to refetch */
+  isInvalidated: boolean;
+}
+
+export type QueryFetcher<T = any> = (signal: AbortSignal) => Promise<T>;
+
+interface QueryEntry<T = any> {
+  key: string;
+  state: QueryState<T>;
+  fetcher?: QueryFetcher<T>;
+  staleTime: number;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const INITIAL_STATE: QueryState = {
+  data: undefined,
+  error: null,
+  status: "idle",
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+/**
+ * Builds a stable cache key from an endpoint and its params
+ */
+export function buildQueryKey(endpoint: string, params?: QueryParams): string {
+  if (!params) return endpoint;
+  const query = Object.keys(params)
+    .filter((name) => params[name] !== undefined && params[name] !== null)
+    .sort()
+    .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+    .join("&");
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/**
+ * Whether a key falls under a prefix on a path-segment boundary ("/users" matches "/users/1"
+ * and "/users?page=2" but not "/users-export")
+ */
+function matchesKeyPrefix(key: string, prefix: string): boolean {
+  if (!key.startsWith(prefix)) return false;
+  if (key.length === prefix.length || !prefix || /[/?&]$/.test(prefix)) return true;
+  return key[prefix.length] === "/" || key[prefix.length] === "?";
+}
+
+/**
+ * Get or create the entry for a key
+ */
+function getEntry<T>(key: string): QueryEntry<T> {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = {
+      key,
+      state: INITIAL_STATE,
+      staleTime: QUERY_CONFIG.STALE_TIME,
+      promise: null,
+      controller: null,
+      listeners: new Set(),
+      gcTimer: null,
+    };
+    entries.set(key, entry);
+  }
+  return entry as QueryEntry<T>;
+}
+
+/**
+ * Replace an entry's state and notify its subscribers
+ */
+function setEntryState<T>(entry: QueryEntry<T>, partial: Partial<QueryState<T>>): void {
+  entry.state = { ...entry.state, ...partial };
+  entry.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Whether cached data is missing, invalidated or older than its stale time
+ */
+function isStale(entry: QueryEntry): boolean {
+  return (
+    entry.state.status !== "success" ||
+    entry.state.isInvalidated ||
+    Date.now() - entry.state.updatedAt > entry.staleTime
+  );
+}
+
+/**
+ * Gets the current state for a key
+ */
+export function getQueryState<T = any>(key: string): QueryState<T> {
+  return (entries.get(key)?.state as QueryState<T>) || INITIAL_STATE;
+}
+
+/**
+ * Gets cached data for a key
+ */
+export function getQueryData<T = any>(key: string): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+/**
+ * Lists cached keys under a path prefix or matching a predicate
+ */
+export function getQueryKeys(match: string | ((key: string) => boolean) = ""): string[] {
+  const matches =
+    typeof match === "function" ? match : (key: string) => matchesKeyPrefix(key, match);
+  return Array.from(entries.keys()).filter(matches);
+}
+
+/**
+ * Detaches an in-flight fetch so its result cannot overwrite newer (e.g. optimistic) data
+ */
+export function cancelQuery(key: string): void {
+  const entry = entries.get(key);
+  if (entry?.promise) {
+    entry.promise = null;
+    entry.controller?.abort();
+    entry.controller = null;
+    setEntryState(entry, {
+      isFetching: false,
+      status: entry.state.data === undefined ? "idle" : "success",
+    });
+  }
+}
+
+/**
+ * Writes data into the cache (e.g. optimistic updates)
+ */
+export function setQueryData<T = any>(
+  key: string,
+  updater: T | undefined | ((previous: T | undefined) => T | undefined)
+): void {
+  const entry = getEntry<T>(key);
+  const data =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T | undefined)(entry.state.data)
+      : updater;
+  setEntryState(entry, {
+    data,
+    error: null,
+    status: data === undefined ? "idle" : "success",
+    updatedAt: Date.now(),
+    isInvalidated: false,
+  });
+}
+
+/**
+ * Fetches a query, sharing the in-flight promise and skipping fresh data unless forced
+ */
+export function fetchQuery<T = any>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  options: { staleTime?: number; force?: boolean } = {}
+): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+  if (options.staleTime !== undefined) {
+    entry.staleTime = options.staleTime;
+  }
+
+  if (entry.promise) return entry.promise;
+  if (!options.force && !isStale(entry)) {
+    return Promise.resolve(entry.state.data as T);
+  }
+
+  setEntryState(entry, {
+    isFetching: true,
+    status: entry.state.status === "success" ? "success" : "loading",
+  });
+
+  const controller = new AbortController();
+  const promise = fetcher(controller.signal)
+    .then((data) => {
+      if (entry.promise === promise) {
+        setEntryState(entry, {
+          data,
+          error: null,
+          status: "success",
+          isFetching: false,
+          updatedAt: Date.now(),
+          isInvalidated: false,
+        });
+      }
+      return data;
+    })
+    .catch((error) => {
+      if (entry.promise === promise && isCancelledError(error)) {
+        setEntryState(entry, {
+          isFetching: false,
+          status: entry.state.data === undefined ? "idle" : "success",
+        });
+      } else if (entry.promise === promise) {
+        // Keep previous data around (stale-while-revalidate) and surface the error
+        setEntryState(entry, {
+          error: error instanceof ApiError ? error : new ApiError(String(error?.message), 0, error),
+          status: entry.state.data === undefined ? "error" : "success",
+          isFetching: false,
+        });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = null;
+        entry.controller = null;
+      }
+    });
+
+  entry.promise = promise;
+  entry.controller = controller;
+  return promise;
+}
+
+/**
+ * Fetcher for GET endpoints
+ */
+export function createGetFetcher<T>(
+  endpoint: string,
+  params?: QueryParams,
+  options?: RequestOptions
+): QueryFetcher<T> {
+  return (signal) =>
+    get<T>(endpoint, { ...options, params, signal }).then((response) => response.data);
+}
+
+/**
+ * Subscribes to a key; when the last subscriber leaves, the in-flight fetch is aborted and the
+ * entry is garbage-collected after GC_TIME
+ */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+  }
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      // Deferred so an immediate re-subscribe (remount) keeps the request alive
+      setTimeout(() => {
+        if (entry.listeners.size === 0) {
+          cancelQuery(key);
+        }
+      }, 0);
+      entry.gcTimer = setTimeout(() => {
+        if (entry.listeners.size === 0 && !entry.promise) {
+          entries.delete(key);
+        }
+      }, QUERY_CONFIG.GC_TIME);
+    }
+  };
+}
+
+/**
+ * Marks every key under the prefix as stale and refetches the ones in use
+ */
+export function invalidateQueries(keyPrefix = ""): Promise<void> {
+  const refetches: Promise<unknown>[] = [];
+
+  entries.forEach((entry) => {
+    if (!matchesKeyPrefix(entry.key, keyPrefix)) return;
+    setEntryState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      refetches.push(fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => undefined));
+    }
+  });
+
+  return Promise.all(refetches).then(() => undefined);
+}
+
+/**
+ * Drops cached entries (all, or those matching the prefix) and aborts their in-flight fetches.
+ * Entries still subscribed to are reset in place instead, so mounted hooks stay attached.
+ */
+export function removeQueries(keyPrefix = ""): void {
+  entries.forEach((entry, key) => {
+    if (!matchesKeyPrefix(key, keyPrefix)) return;
+    entry.promise = null;
+    entry.controller?.abort();
+    entry.controller = null;
+    if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+
+    if (entry.listeners.size > 0) {
+      setEntryState(entry, INITIAL_STATE);
+    } else {
+      entries.delete(key);
+    }
+  });
+}
+
+/**
+ * Refetches stale queries that are currently on screen
+ */
+function refetchActiveStaleQueries(): void {
+  entries.forEach((entry) => {
+    if (entry.listeners.size > 0 && entry.fetcher && isStale(entry)) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => undefined);
+    }
+  });
+}
+
+// Background revalidation when the user comes back to the tab or the network returns
+if (typeof window !== "undefined") {
+  window.addEventListener("focus", refetchActiveStaleQueries);
+  window.addEventListener("online", refetchActiveStaleQueries);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") {
+      refetchActiveStaleQueries();
+    }
+  });
+}
@@ -0,0 +1,366 @@
+import {
+  get,
+  post,
+  batchRequest,
+  runBatch,
+  runBatchSettled,
+  retryRequest,
+  ApiError,
+  ResponseValidationError,
+  RequestCancelledError,
+} from "./request";
+import { interceptors } from "./interceptors";
+import { uploadFile } from "./upload";
+import { STORAGE_KEYS, ENDPOINTS, HTTP_STATUS } from "./config";
+import { userSchema } from "../types";
+
+function jsonResponse(status: number, body: any) {
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: () => "application/json" },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  };
+}
+
+const fetchMock = jest.fn();
+
+beforeEach(() => {
+  localStorage.clear();
+  fetchMock.mockReset();
+  (global as any).fetch = fetchMock;
+  interceptors.request.clear();
+  interceptors.response.clear();
+  interceptors.error.clear();
+});
+
+describe("request() token refresh", () => {
+  test("shares one refresh between concurrent 401s and replays them", async () => {
+    localStorage.setItem(STORAGE_KEYS.TOKEN, "expired");
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, "refresh-1");
+
+    fetchMock.mockImplementation(async (url: string, init: any) => {
+      if (url.endsWith(ENDPOINTS.AUTH.REFRESH)) {
+        return jsonResponse(200, { data: { token: "fresh", refreshToken: "refresh-2" } });
+      }
+      return init.headers.Authorization === "Bearer fresh"
+        ? jsonResponse(200, { data: { url } })
+        : jsonResponse(401, { message: "expired" });
+    });
+
+    const [a, b] = await Promise.all([get("/a"), get("/b")]);
+
+    expect(a.data.url).toMatch(/\/a$/);
+    expect(b.data.url).toMatch(/\/b$/);
+    const refreshCalls = fetchMock.mock.calls.filter(([url]) =>
+      url.endsWith(ENDPOINTS.AUTH.REFRESH)
+    );
+    expect(refreshCalls).toHaveLength(1);
+    expect(localStorage.getItem(STORAGE_KEYS.TOKEN)).toBe("fresh");
+    expect(localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN)).toBe("refresh-2");
+  });
+
+  test("clears the session when the refresh itself fails", async () => {
+    localStorage.setItem(STORAGE_KEYS.TOKEN, "expired");
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, "revoked");
+
+    fetchMock.mockResolvedValue(jsonResponse(401, { message: "nope" }));
+
+    await expect(get("/a")).rejects.toBeInstanceOf(ApiError);
+    expect(localStorage.getItem(STORAGE_KEYS.TOKEN)).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN)).toBeNull();
+  });
+
+  test("does not redirect on 401 for unauthenticated calls", async () => {
+    localStorage.setItem(STORAGE_KEYS.TOKEN, "still-valid");
+    fetchMock.mockResolvedValue(jsonResponse(401, { message: "Invalid email or password" }));
+
+    await expect(get("/auth/login", { requiresAuth: false })).rejects.toThrow(
+      "Invalid email or password"
+    );
+    expect(localStorage.getItem(STORAGE_KEYS.TOKEN)).toBe("still-valid");
+  });
+});
+
+describe("request() schema validation", () => {
+  const user = {
+    id: "u1",
+    name: "Ada",
+    email: "ada@company.com",
+    role: "admin",
+    status: "active",
+    emailVerified: true,
+    createdAt: "2024-01-01T00:00:00Z",
+  };
+
+  test("returns payloads that match the schema", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { data: user }));
+
+    const response = await get(ENDPOINTS.USERS.ME, { requiresAuth: false, schema: userSchema });
+
+    expect(response.data).toEqual(user);
+  });
+
+  test("throws ResponseValidationError on contract drift", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { data: { ...user, role: "owner", id: 1 } }));
+
+    const error = await get(ENDPOINTS.USERS.ME, {
+      requiresAuth: false,
+      schema: userSchema,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.validationErrors.map((e: any) => e.instancePath)).toEqual(
+      expect.arrayContaining(["/id", "/role"])
+    );
+  });
+});
+
+describe("request() interceptors", () => {
+  test("runs request interceptors by order and stops after eject", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { data: "ok" }));
+    const calls: string[] = [];
+
+    interceptors.request.use((config) => {
+      calls.push("tenant");
+      return { ...config, headers: { ...config.headers, "X-Tenant": "acme" } };
+    });
+    const eject = interceptors.request.use(
+      (config) => {
+        calls.push("correlation");
+        return { ...config, headers: { ...config.headers, "X-Correlation-Id": "abc" } };
+      },
+      { order: -1 }
+    );
+
+    await get("/a", { requiresAuth: false });
+    expect(calls).toEqual(["correlation", "tenant"]);
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      "X-Tenant": "acme",
+      "X-Correlation-Id": "abc",
+    });
+
+    eject();
+    await get("/a", { requiresAuth: false });
+    expect(fetchMock.mock.calls[1][1].headers["X-Correlation-Id"]).toBeUndefined();
+  });
+
+  test("lets response interceptors transform and error interceptors map or recover", async () => {
+    interceptors.response.use((response) => ({ ...response, data: response.data.toUpperCase() }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { data: "ok" }));
+    await expect(get("/a", { requiresAuth: false })).resolves.toMatchObject({ data: "OK" });
+
+    interceptors.error.use((error) =>
+      error.status === 409 ? new ApiError("Already exists", 409, error.data) : error
+    );
+    fetchMock.mockResolvedValueOnce(jsonResponse(409, { message: "conflict" }));
+    await expect(get("/a", { requiresAuth: false })).rejects.toThrow("Already exists");
+
+    interceptors.error.use((error) => ({ data: null, success: true, status: error.status }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(503, {}));
+    await expect(get("/a", { requiresAuth: false })).resolves.toMatchObject({ status: 503 });
+  });
+
+  test("sends uploads through the pipeline without a JSON content type", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(201, { data: { id: "f1" } }));
+    interceptors.request.use((config) => ({
+      ...config,
+      headers: { ...config.headers, "X-Tenant": "acme" },
+    }));
+
+    const file = new File(["hello"], "hello.txt", { type: "text/plain" });
+    await uploadFile("/files", file, { folder: "docs" }, {
+      requiresAuth: false,
+      headers: { "Content-Type": "application/json" },
+      validation: { allowedTypes: ["text/plain"] },
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.body).toBeInstanceOf(FormData);
+    expect(init.body.get("folder")).toBe("docs");
+    expect(init.headers["Content-Type"]).toBeUndefined();
+    expect(init.headers["X-Tenant"]).toBe("acme");
+  });
+});
+
+describe("request() cancellation", () => {
+  // Resolves like fetch does: rejects with an AbortError once the signal fires
+  function pendingUntilAborted(_url: string, init: any) {
+    return new Promise((_resolve, reject) => {
+      init.signal.addEventListener("abort", () => {
+        const error = new Error("aborted");
+        error.name = "AbortError";
+        reject(error);
+      });
+    });
+  }
+
+  test("rejects with RequestCancelledError when the caller aborts", async () => {
+    fetchMock.mockImplementation(pendingUntilAborted);
+    const controller = new AbortController();
+
+    const pending = get("/slow", { signal: controller.signal, timeout: 10000, requiresAuth: false });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  test("reports a timeout as a 408 rather than a cancellation", async () => {
+    fetchMock.mockImplementation(pendingUntilAborted);
+
+    const error = await get("/slow", { timeout: 5, requiresAuth: false }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).not.toBeInstanceOf(RequestCancelledError);
+    expect(error.status).toBe(HTTP_STATUS.REQUEST_TIMEOUT);
+  });
+
+  test("does not send a request whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      get("/a", { signal: controller.signal, requiresAuth: false })
+    ).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("request() retry", () => {
+  function rateLimited(retryAfter: string) {
+    return {
+      ...jsonResponse(429, { message: "slow down" }),
+      headers: {
+        get: (name: string) => (name === "Retry-After" ? retryAfter : "application/json"),
+      },
+    };
+  }
+
+  test("retries a 429 after the Retry-After delay", async () => {
+    fetchMock
+      .mockResolvedValueOnce(rateLimited("0"))
+      .mockResolvedValueOnce(jsonResponse(200, { data: "ok" }));
+    const onRetry = jest.fn();
+
+    const response = await get("/limited", { requiresAuth: false, retry: { onRetry } });
+
+    expect(response.data).toBe("ok");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 0 }));
+  });
+
+  test("does not retry non-idempotent methods by default", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {}));
+
+    await expect(
+      post("/orders", { id: 1 }, { requiresAuth: false, retry: { baseDelay: 1 } })
+    ).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("gives up when the wait would exceed the elapsed-time budget", async () => {
+    fetchMock.mockResolvedValue(rateLimited("120"));
+
+    await expect(get("/limited", { requiresAuth: false, retry: true })).rejects.toMatchObject({
+      status: 429,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("stops waiting when the signal aborts", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {}));
+    const controller = new AbortController();
+
+    const pending = get("/down", {
+      requiresAuth: false,
+      signal: controller.signal,
+      retry: { baseDelay: 10000, onRetry: () => controller.abort() },
+    });
+
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retryRequest()", () => {
+  test("keeps the legacy default of three attempts", async () => {
+    const requestFn = jest.fn().mockRejectedValue(new ApiError("down", 503));
+
+    await expect(retryRequest(requestFn, undefined, 1)).rejects.toMatchObject({ status: 503 });
+    expect(requestFn).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not retry client errors", async () => {
+    const requestFn = jest.fn().mockRejectedValue(new ApiError("bad", 400));
+
+    await expect(retryRequest(requestFn, 5, 1)).rejects.toMatchObject({ status: 400 });
+    expect(requestFn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runBatch()", () => {
+  test("limits concurrency and settles every task with progress", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const task = (index: number) => async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      if (index === 2) throw new ApiError("nope", 409);
+      return index;
+    };
+    const onProgress = jest.fn();
+
+    const results = await runBatchSettled([0, 1, 2, 3, 4].map(task), {
+      concurrency: 2,
+      onProgress,
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+      "fulfilled",
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      completed: 5,
+      succeeded: 4,
+      failed: 1,
+      total: 5,
+    });
+  });
+
+  test("fails fast and cancels the tasks still running", async () => {
+    const slowSignals: AbortSignal[] = [];
+    const started: number[] = [];
+    const tasks = [0, 1, 2, 3].map((index) => async (signal: AbortSignal) => {
+      started.push(index);
+      if (index === 0) throw new ApiError("boom", 500);
+      slowSignals.push(signal);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return index;
+    });
+
+    await expect(runBatch(tasks, { concurrency: 2 })).rejects.toThrow("boom");
+    expect(started).toEqual([0, 1]);
+    expect(slowSignals[0].aborted).toBe(true);
+  });
+
+  test("batchRequest resolves with the responses in order", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      jsonResponse(200, { data: url.endsWith("/a") ? "A" : "B" })
+    );
+
+    const responses = await batchRequest<string>(
+      ["/a", "/b"].map((path) => (signal) => get(path, { signal, requiresAuth: false })),
+      { concurrency: 1 }
+    );
+
+    expect(responses.map((response) => response.data)).toEqual(["A", "B"]);
+  });
+});
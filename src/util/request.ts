@@ -2,11 +2,25 @@
 // Centralized request management with authentication and error handling
 
 import { 
+  API_CONFIG, 
   API_URL, 
-  STORAGE_KEYS, 
+  ENDPOINTS, 
+  HTTP_METHODS, 
   HTTP_STATUS, 
-  ERROR_MESSAGES 
+  ERROR_MESSAGES,
+  RETRY_CONFIG,
+  BATCH_CONFIG,
 } from "./config";
+import {
+  getAuthToken,
+  getRefreshToken,
+  setAuthTokens,
+  clearSession,
+} from "./authStorage";
+import { AnySchema, ErrorObject } from "ajv";
+import { validateSchema, formatSchemaErrors } from "./schema";
+import { interceptors, RequestConfig } from "./interceptors";
+import { getTransport } from "./transport";
 
 /**
  * Request options interface
@@ -15,6 +29,57 @@ export interface RequestOptions extends RequestInit {
   timeout?: number;
   requiresAuth?: boolean;
   baseURL?: string;
+  skipAuthRefresh?: boolean;
+  schema?: AnySchema;
+  params?: Record<string, string | number | boolean | null | undefined>;
+  /** Retry policy: true for defaults, a number of retries, or full options */
+  retry?: boolean | number | RetryOptions;
+  /** Reports request body progress (sends over XMLHttpRequest) */
+  onUploadProgress?: (progress: TransferProgress) => void;
+  /** "blob" returns successful bodies as a Blob instead of parsing them */
+  responseType?: "json" | "blob";
+  /** Reports response body progress; only used with responseType "blob" */
+  onDownloadProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Transfer progress
+ */
+export interface TransferProgress {
+  loaded: number;
+  total: number;
+  /** 0-100 */
+  percent: number;
+}
+
+/**
+ * Retry policy; omitted fields fall back to RETRY_CONFIG
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  /** Total time budget across all attempts and waits */
+  maxElapsed?: number;
+  /** Randomize delays so clients don't retry in lockstep (default true) */
+  jitter?: boolean;
+  /** Method being retried; only methods in `methods` are retried */
+  method?: string;
+  methods?: readonly string[];
+  statuses?: readonly number[];
+  /** Replaces the default status-based check */
+  shouldRetry?: (error: any, attempt: number) => boolean;
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal | null;
+}
+
+export interface RetryInfo {
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  /** Wait before the next attempt, in ms */
+  delay: number;
+  error: any;
 }
 
 /**
@@ -26,6 +91,7 @@ export interface ApiResponse<T = any> {
   success: boolean;
   status: number;
   errors?: Record<string, string[]>;
+  headers?: Headers;
 }
 
 /**
@@ -35,6 +101,8 @@ export class ApiError extends Error {
   status: number;
   data?: any;
   errors?: Record<string, string[]>;
+  /** Server-requested wait in ms (Retry-After header) */
+  retryAfter?: number;
 
   constructor(message: string, status: number, data?: any) {
     super(message);
@@ -46,19 +114,40 @@ export class ApiError extends Error {
 }
 
 /**
- * Get authentication token from localStorage
+ * Thrown when a response does not match the schema passed in RequestOptions
  */
-function getAuthToken(): string | null {
-  return localStorage.getItem(STORAGE_KEYS.TOKEN);
+export class ResponseValidationError extends ApiError {
+  validationErrors: ErrorObject[];
+
+  constructor(status: number, validationErrors: ErrorObject[], data?: any) {
+    super(ERROR_MESSAGES.INVALID_RESPONSE, status, data);
+    this.name = "ResponseValidationError";
+    this.validationErrors = validationErrors;
+  }
+
+  /**
+   * Readable summary of the contract mismatch
+   */
+  get details(): string {
+    return formatSchemaErrors(this.validationErrors);
+  }
 }
 
 /**
- * Clear authentication data
+ * Thrown when the caller aborts a request (distinct from a timeout)
  */
-function clearAuthData(): void {
-  localStorage.removeItem(STORAGE_KEYS.TOKEN);
-  localStorage.removeItem(STORAGE_KEYS.USER);
-  localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
+export class RequestCancelledError extends ApiError {
+  constructor(reason?: any) {
+    super(ERROR_MESSAGES.CANCELLED, 0, reason);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Checks if an error comes from a caller-initiated abort
+ */
+export function isCancelledError(error: unknown): error is RequestCancelledError {
+  return error instanceof RequestCancelledError;
 }
 
 /**
@@ -66,39 +155,92 @@ function clearAuthData(): void {
  */
 function redirectToLogin(): void {
   // Clear auth data first
-  clearAuthData();
+  clearSession();
   // Redirect to login
   window.location.href = "/login";
 }
 
 /**
- * Request with timeout
+ * Request with timeout, combined with the caller's abort signal
  */
 async function fetchWithTimeout(
   url: string,
   options: RequestOptions = {}
 ): Promise<Response> {
-  const { timeout = 30000, ...fetchOptions } = options;
+  const { timeout = API_CONFIG.TIMEOUT, signal, onUploadProgress, ...fetchOptions } = options;
+
+  if (signal?.aborted) {
+    throw new RequestCancelledError(signal.reason);
+  }
 
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener("abort", onCallerAbort);
 
   try {
-    const response = await fetch(url, {
-      ...fetchOptions,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-    return response;
+    const init = { ...fetchOptions, signal: controller.signal };
+    return await getTransport()(url, { ...init, onUploadProgress });
   } catch (error: any) {
-    clearTimeout(timeoutId);
     if (error.name === "AbortError") {
-      throw new ApiError(ERROR_MESSAGES.TIMEOUT, 408);
+      if (timedOut) {
+        throw new ApiError(ERROR_MESSAGES.TIMEOUT, HTTP_STATUS.REQUEST_TIMEOUT);
+      }
+      throw new RequestCancelledError(signal?.reason);
     }
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onCallerAbort);
   }
 }
 
+/**
+ * Read a body as a Blob, keeping its MIME type, reporting progress and stopping on abort
+ */
+async function readBlob(
+  response: Response,
+  onProgress?: (progress: TransferProgress) => void,
+  signal?: AbortSignal | null
+): Promise<Blob> {
+  const type = response.headers.get("content-type") || "";
+  if (!response.body) {
+    return response.blob();
+  }
+
+  const total = Number(response.headers.get("content-length")) || 0;
+  const reader = response.body.getReader();
+  const onAbort = () => reader.cancel().catch(() => undefined);
+  signal?.addEventListener("abort", onAbort);
+
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) {
+        throw new RequestCancelledError(signal.reason);
+      }
+      if (done) break;
+      chunks.push(value);
+      loaded += value.length;
+      onProgress?.({
+        loaded,
+        total,
+        percent: total ? Math.round((loaded / total) * 100) : 0,
+      });
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  return new Blob(chunks, { type });
+}
+
 /**
  * Parse response body based on content type
  */
@@ -125,26 +267,44 @@ async function parseResponse(response: Response): Promise<any> {
   }
 }
 
+/**
+ * Whether the body is sent as-is (the browser sets its own Content-Type)
+ */
+function isRawBody(body: any): boolean {
+  return (
+    (typeof FormData !== "undefined" && body instanceof FormData) ||
+    (typeof Blob !== "undefined" && body instanceof Blob) ||
+    (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams)
+  );
+}
+
 /**
  * Build request headers
  */
-function buildHeaders(requiresAuth: boolean, customHeaders?: HeadersInit): Record<string, string> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
+function buildHeaders(
+  requiresAuth: boolean,
+  customHeaders?: HeadersInit,
+  body?: any
+): Record<string, string> {
+  const rawBody = isRawBody(body);
+  const headers: Record<string, string> = rawBody
+    ? {}
+    : { "Content-Type": "application/json" };
+
+  const setHeader = (key: string, value: string) => {
+    // Never override the multipart boundary the browser generates
+    if (rawBody && key.toLowerCase() === "content-type") return;
+    headers[key] = value;
   };
 
   // Add custom headers
   if (customHeaders) {
     if (customHeaders instanceof Headers) {
-      customHeaders.forEach((value, key) => {
-        headers[key] = value;
-      });
+      customHeaders.forEach((value, key) => setHeader(key, value));
     } else if (Array.isArray(customHeaders)) {
-      customHeaders.forEach(([key, value]) => {
-        headers[key] = value;
-      });
+      customHeaders.forEach(([key, value]) => setHeader(key, value));
     } else {
-      Object.assign(headers, customHeaders);
+      Object.entries(customHeaders).forEach(([key, value]) => setHeader(key, value));
     }
   }
 
@@ -163,101 +323,368 @@ function buildHeaders(requiresAuth: boolean, customHeaders?: HeadersInit): Recor
 }
 
 /**
- * Main request function
+ * Build full URL from endpoint, base URL and query params
  */
-export async function request<T = any>(
-  endpoint: string,
-  options: RequestOptions = {}
-): Promise<ApiResponse<T>> {
-  const {
-    requiresAuth = true,
-    baseURL = API_URL,
-    headers = {},
-    ...restOptions
-  } = options;
-
-  // Build full URL
-  const url = endpoint.startsWith("http") 
-    ? endpoint 
+function buildUrl(endpoint: string, baseURL: string, params?: RequestOptions["params"]): string {
+  const url = endpoint.startsWith("http")
+    ? endpoint
     : `${baseURL}${endpoint.startsWith("/") ? endpoint : `/${endpoint}`}`;
 
-  // Build headers
-  const requestHeaders = buildHeaders(requiresAuth, headers);
+  if (!params) return url;
 
-  try {
-    // Make the request
-    const response = await fetchWithTimeout(url, {
-      ...restOptions,
-      headers: requestHeaders,
-    });
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      query.append(key, String(value));
+    }
+  });
+  const queryString = query.toString();
+  if (!queryString) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${queryString}`;
+}
 
-    // Parse response
-    const data = await parseResponse(response);
+/**
+ * In-flight token refresh shared by all concurrent requests
+ */
+let refreshPromise: Promise<string> | null = null;
 
-    // Handle unauthorized (401)
-    if (response.status === HTTP_STATUS.UNAUTHORIZED) {
-      redirectToLogin();
-      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED, data);
-    }
+/**
+ * Exchange the stored refresh token for a new access token
+ */
+async function performTokenRefresh(): Promise<string> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED);
+  }
 
-    // Handle forbidden (403)
-    if (response.status === HTTP_STATUS.FORBIDDEN) {
-      throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HTTP_STATUS.FORBIDDEN, data);
-    }
+  const response = await fetchWithTimeout(`${API_URL}${ENDPOINTS.AUTH.REFRESH}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  const data = await parseResponse(response);
+  const payload = data?.data !== undefined ? data.data : data;
 
-    // Handle not found (404)
-    if (response.status === HTTP_STATUS.NOT_FOUND) {
-      throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND, data);
-    }
+  if (!response.ok || !payload?.token) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED, data);
+  }
+
+  setAuthTokens(payload.token, payload.refreshToken);
+  return payload.token;
+}
+
+/**
+ * Refresh the access token, reusing the refresh already in flight if any
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = performTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
 
-    // Handle validation errors (422)
-    if (response.status === HTTP_STATUS.UNPROCESSABLE_ENTITY) {
+/**
+ * Send a resolved request and map the HTTP status to a response or ApiError
+ */
+async function executeRequest<T>(config: RequestConfig): Promise<ApiResponse<T>> {
+  const {
+    endpoint,
+    url,
+    requiresAuth = true,
+    skipAuthRefresh = false,
+    schema,
+    baseURL,
+    retry,
+    responseType = "json",
+    onDownloadProgress,
+    ...fetchOptions
+  } = config;
+
+  const response = await fetchWithTimeout(url, fetchOptions);
+
+  // Parse response (binary bodies are read as-is; error bodies are still parsed)
+  const data =
+    responseType === "blob" && response.ok
+      ? await readBlob(response, onDownloadProgress, fetchOptions.signal)
+      : await parseResponse(response);
+
+  // Handle unauthorized (401)
+  if (response.status === HTTP_STATUS.UNAUTHORIZED) {
+    // Unauthenticated calls (e.g. login) surface the server message as-is
+    if (!requiresAuth) {
       throw new ApiError(
-        data.message || ERROR_MESSAGES.VALIDATION_ERROR,
-        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        data?.message || ERROR_MESSAGES.UNAUTHORIZED,
+        HTTP_STATUS.UNAUTHORIZED,
         data
       );
     }
 
-    // Handle server errors (500+)
-    if (response.status >= 500) {
-      throw new ApiError(ERROR_MESSAGES.SERVER_ERROR, response.status, data);
+    if (!skipAuthRefresh && getRefreshToken()) {
+      // Another request may already have refreshed the token we sent
+      const sentToken = config.headers.Authorization?.replace("Bearer ", "");
+      let currentToken = getAuthToken();
+
+      try {
+        if (!currentToken || currentToken === sentToken) {
+          currentToken = await refreshAccessToken();
+        }
+      } catch {
+        redirectToLogin();
+        throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED, data);
+      }
+
+      // Replay once with the new token
+      return executeRequest<T>({
+        ...config,
+        skipAuthRefresh: true,
+        headers: { ...config.headers, Authorization: `Bearer ${currentToken}` },
+      });
     }
 
-    // Check if request was successful
-    if (!response.ok) {
-      throw new ApiError(
-        data.message || `HTTP ${response.status}`,
-        response.status,
-        data
-      );
+    redirectToLogin();
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED, data);
+  }
+
+  // Handle forbidden (403)
+  if (response.status === HTTP_STATUS.FORBIDDEN) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HTTP_STATUS.FORBIDDEN, data);
+  }
+
+  // Handle not found (404)
+  if (response.status === HTTP_STATUS.NOT_FOUND) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND, data);
+  }
+
+  // Handle validation errors (422)
+  if (response.status === HTTP_STATUS.UNPROCESSABLE_ENTITY) {
+    throw new ApiError(
+      data?.message || ERROR_MESSAGES.VALIDATION_ERROR,
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      data
+    );
+  }
+
+  // Handle server errors (500+)
+  if (response.status >= 500) {
+    throw withRetryAfter(
+      new ApiError(ERROR_MESSAGES.SERVER_ERROR, response.status, data),
+      response
+    );
+  }
+
+  // Check if request was successful
+  if (!response.ok) {
+    throw withRetryAfter(
+      new ApiError(data?.message || `HTTP ${response.status}`, response.status, data),
+      response
+    );
+  }
+
+  const payload = data?.data !== undefined ? data.data : data;
+
+  // Validate payload against the expected contract
+  if (schema) {
+    const schemaErrors = validateSchema(schema, payload);
+    if (schemaErrors) {
+      throw new ResponseValidationError(response.status, schemaErrors, data);
     }
+  }
 
-    // Return successful response
-    return {
-      data: data.data !== undefined ? data.data : data,
-      message: data.message,
-      success: true,
-      status: response.status,
-      errors: data.errors,
+  // Return successful response
+  return {
+    data: payload,
+    message: data?.message,
+    success: true,
+    status: response.status,
+    errors: data?.errors,
+    headers: response.headers,
+  };
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Attach the server-requested retry delay to an error
+ */
+function withRetryAfter(error: ApiError, response: Response): ApiError {
+  error.retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  return error;
+}
+
+/**
+ * Default retry check: network failures and transient statuses, never cancellations
+ */
+function isRetryableError(error: any, statuses: readonly number[]): boolean {
+  if (isCancelledError(error)) return false;
+  if (!(error instanceof ApiError)) return true;
+  return error.status === 0 || statuses.includes(error.status);
+}
+
+/**
+ * Wait that stops early when the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError(signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new RequestCancelledError(signal?.reason));
     };
-  } catch (error: any) {
-    // Handle ApiError
-    if (error instanceof ApiError) {
-      throw error;
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs fn until it succeeds or the retry policy gives up, then rethrows the last error
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    retries = RETRY_CONFIG.RETRIES,
+    baseDelay = RETRY_CONFIG.BASE_DELAY,
+    maxDelay = RETRY_CONFIG.MAX_DELAY,
+    maxElapsed = RETRY_CONFIG.MAX_ELAPSED,
+    jitter = true,
+    method,
+    methods = RETRY_CONFIG.IDEMPOTENT_METHODS as readonly string[],
+    statuses = RETRY_CONFIG.RETRYABLE_STATUSES as readonly number[],
+    shouldRetry,
+    onRetry,
+    signal,
+  } = options;
+  const methodAllowed = !method || methods.includes(method.toUpperCase());
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const retryable = shouldRetry
+        ? shouldRetry(error, attempt)
+        : isRetryableError(error, statuses);
+      if (!methodAllowed || !retryable || attempt > retries || signal?.aborted) {
+        throw error;
+      }
+
+      // Exponential backoff with "equal jitter": keep half, randomize the other half
+      const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+      const jittered = jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+      const delay =
+        error instanceof ApiError && error.retryAfter !== undefined ? error.retryAfter : jittered;
+
+      if (Date.now() - startedAt + delay > maxElapsed) {
+        throw error;
+      }
+
+      onRetry?.({ attempt, delay, error });
+      await wait(delay, signal);
+    }
+  }
+}
+
+/**
+ * Normalize RequestOptions.retry for a resolved request
+ */
+function resolveRetryOptions(config: RequestConfig): RetryOptions | null {
+  const { retry } = config;
+  if (!retry) return null;
+  const policy = retry === true ? {} : typeof retry === "number" ? { retries: retry } : retry;
+  return { method: config.method, signal: config.signal, ...policy };
+}
+
+/**
+ * Convert anything thrown during a request into an ApiError
+ */
+function toApiError(error: any): ApiError {
+  // Handle ApiError
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  // Handle network errors
+  if (error?.message === "Failed to fetch") {
+    return new ApiError(ERROR_MESSAGES.NETWORK_ERROR, 0, error);
+  }
+
+  // Generic error
+  return new ApiError(error?.message || ERROR_MESSAGES.UNKNOWN, 0, error);
+}
+
+/**
+ * Main request function
+ */
+export async function request<T = any>(
+  endpoint: string,
+  options: RequestOptions = {}
+): Promise<ApiResponse<T>> {
+  const {
+    requiresAuth = true,
+    baseURL = API_URL,
+    headers = {},
+    params,
+    ...restOptions
+  } = options;
+
+  let config: RequestConfig = {
+    ...restOptions,
+    requiresAuth,
+    baseURL,
+    endpoint,
+    url: buildUrl(endpoint, baseURL, params),
+    method: (restOptions.method || HTTP_METHODS.GET).toUpperCase(),
+    headers: {},
+  };
+
+  try {
+    config.headers = buildHeaders(requiresAuth, headers, restOptions.body);
+
+    for (const intercept of interceptors.request.list()) {
+      config = await intercept(config);
     }
 
-    // Handle network errors
-    if (error.message === "Failed to fetch") {
-      throw new ApiError(ERROR_MESSAGES.NETWORK_ERROR, 0, error);
+    const retryOptions = resolveRetryOptions(config);
+    let response: ApiResponse = retryOptions
+      ? await withRetry(() => executeRequest<T>(config), retryOptions)
+      : await executeRequest<T>(config);
+
+    for (const intercept of interceptors.response.list()) {
+      response = await intercept(response, config);
     }
 
-    // Generic error
-    throw new ApiError(
-      error.message || ERROR_MESSAGES.UNKNOWN,
-      0,
-      error
-    );
+    return response;
+  } catch (thrown) {
+    let error = toApiError(thrown);
+
+    for (const intercept of interceptors.error.list()) {
+      const result = await intercept(error, config);
+      // An interceptor recovered with a response
+      if (!(result instanceof Error)) {
+        return result;
+      }
+      error = toApiError(result);
+    }
+
+    throw error;
   }
 }
 
@@ -333,188 +760,159 @@ export async function del<T = any>(
 }
 
 /**
- * Upload file with FormData
+ * A unit of batch work; pass the signal on to request() so cancellation reaches the network
  */
-export async function uploadFile<T = any>(
-  endpoint: string,
-  file: File,
-  additionalData?: Record<string, any>,
-  options?: RequestOptions
-): Promise<ApiResponse<T>> {
-  const formData = new FormData();
-  formData.append("file", file);
+export type BatchTask<T> = (signal: AbortSignal) => Promise<T>;
 
-  // Add additional form data if provided
-  if (additionalData) {
-    Object.entries(additionalData).forEach(([key, value]) => {
-      formData.append(key, value);
-    });
-  }
+export type BatchResult<T> =
+  | { status: "fulfilled"; index: number; value: T }
+  | { status: "rejected"; index: number; error: ApiError };
 
-  const { requiresAuth = true, baseURL = API_URL, headers = {} } = options || {};
-  
-  const token = getAuthToken();
-  const url = endpoint.startsWith("http") 
-    ? endpoint 
-    : `${baseURL}${endpoint.startsWith("/") ? endpoint : `/${endpoint}`}`;
+export interface BatchProgress {
+  completed: number;
+  succeeded: number;
+  failed: number;
+  total: number;
+}
 
-  const requestHeaders: Record<string, string> = {};
+export interface BatchOptions {
+  /** Max tasks in flight (default BATCH_CONFIG.CONCURRENCY) */
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal | null;
+}
 
-  // Add custom headers (but don't set Content-Type for FormData)
-  if (headers) {
-    if (headers instanceof Headers) {
-      headers.forEach((value, key) => {
-        if (key.toLowerCase() !== 'content-type') {
-          requestHeaders[key] = value;
-        }
-      });
-    } else if (Array.isArray(headers)) {
-      headers.forEach(([key, value]) => {
-        if (key.toLowerCase() !== 'content-type') {
-          requestHeaders[key] = value;
-        }
-      });
-    } else {
-      Object.entries(headers).forEach(([key, value]) => {
-        if (key.toLowerCase() !== 'content-type') {
-          requestHeaders[key] = value;
-        }
-      });
-    }
+/**
+ * Runs tasks with a concurrency limit and records a result per task; in fail-fast mode the
+ * first failure cancels the rest
+ */
+async function runTasks<T>(
+  tasks: BatchTask<T>[],
+  options: BatchOptions,
+  settled: boolean
+): Promise<BatchResult<T>[]> {
+  const { concurrency = BATCH_CONFIG.CONCURRENCY, onProgress, signal } = options;
+  if (signal?.aborted) {
+    throw new RequestCancelledError(signal.reason);
   }
 
-  if (requiresAuth && token) {
-    requestHeaders.Authorization = `Bearer ${token}`;
-  }
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort);
+
+  const results: BatchResult<T>[] = new Array(tasks.length);
+  const progress: BatchProgress = { completed: 0, succeeded: 0, failed: 0, total: tasks.length };
+  let firstError: ApiError | null = null;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length && !controller.signal.aborted) {
+      const index = next++;
+      try {
+        const value = await tasks[index](controller.signal);
+        results[index] = { status: "fulfilled", index, value };
+        progress.succeeded++;
+      } catch (error) {
+        const apiError = toApiError(error);
+        results[index] = { status: "rejected", index, error: apiError };
+        progress.failed++;
+        if (!settled && !firstError) {
+          firstError = apiError;
+          controller.abort();
+        }
+      }
+      progress.completed++;
+      onProgress?.({ ...progress });
+    }
+  };
 
   try {
-    const response = await fetchWithTimeout(url, {
-      method: "POST",
-      headers: requestHeaders,
-      body: formData,
-      ...options,
-    });
-
-    const data = await parseResponse(response);
+    const workers = Math.max(1, Math.min(concurrency, tasks.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
 
-    if (!response.ok) {
-      throw new ApiError(
-        data.message || "Upload failed",
-        response.status,
-        data
-      );
-    }
+  if (!settled) {
+    if (firstError) throw firstError;
+    if (signal?.aborted) throw new RequestCancelledError(signal.reason);
+    return results;
+  }
 
-    return {
-      data: data.data || data,
-      message: data.message,
-      success: true,
-      status: response.status,
-    };
-  } catch (error: any) {
-    if (error instanceof ApiError) {
-      throw error;
+  for (let index = 0; index < tasks.length; index++) {
+    if (!results[index]) {
+      results[index] = {
+        status: "rejected",
+        index,
+        error: new RequestCancelledError(signal?.reason),
+      };
     }
-    throw new ApiError(error.message || "Upload failed", 0, error);
   }
+  return results;
 }
 
 /**
- * Download file
+ * Runs tasks with a concurrency limit and resolves with their values in order.
+ * The first failure cancels the rest and rejects.
  */
-export async function downloadFile(
-  endpoint: string,
-  filename?: string,
-  options?: RequestOptions
-): Promise<void> {
-  try {
-    const response = await request<Blob>(endpoint, {
-      ...options,
-      headers: {
-        ...options?.headers,
-      },
-    });
+export async function runBatch<T>(tasks: BatchTask<T>[], options: BatchOptions = {}): Promise<T[]> {
+  const results = await runTasks(tasks, options, false);
+  return results.map((result) => (result as { value: T }).value);
+}
 
-    // Create blob URL
-    const blob = new Blob([response.data]);
-    const url = window.URL.createObjectURL(blob);
-
-    // Create temporary link and trigger download
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = filename || "download";
-    document.body.appendChild(link);
-    link.click();
-    
-    // Cleanup
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
-  } catch (error) {
-    throw error;
-  }
+/**
+ * Runs tasks with a concurrency limit and resolves with a result per task, failed or not
+ * (tasks never started because of cancellation are rejected as cancelled)
+ */
+export function runBatchSettled<T>(
+  tasks: BatchTask<T>[],
+  options: BatchOptions = {}
+): Promise<BatchResult<T>[]> {
+  return runTasks(tasks, options, true);
 }
 
 /**
- * Batch requests (parallel)
+ * Batch requests with a concurrency limit; the first failure cancels the rest and rejects.
+ * See runBatchSettled to keep every result.
  */
 export async function batchRequest<T = any>(
-  requests: Array<() => Promise<ApiResponse<any>>>
+  requests: Array<BatchTask<ApiResponse<any>>>,
+  options: BatchOptions = {}
 ): Promise<ApiResponse<T>[]> {
-  try {
-    return await Promise.all(requests.map((req) => req()));
-  } catch (error) {
-    throw error;
-  }
+  return runBatch(requests, options);
 }
 
 /**
- * Sequential requests (one after another)
+ * Sequential requests (one after another); stops on the first error
  */
 export async function sequentialRequest<T = any>(
-  requests: Array<() => Promise<ApiResponse<any>>>
+  requests: Array<BatchTask<ApiResponse<any>>>,
+  options: Omit<BatchOptions, "concurrency"> = {}
 ): Promise<ApiResponse<T>[]> {
-  const results: ApiResponse<T>[] = [];
-  
-  for (const req of requests) {
-    try {
-      const result = await req();
-      results.push(result);
-    } catch (error) {
-      throw error;
-    }
-  }
-  
-  return results;
+  return runBatch(requests, { ...options, concurrency: 1 });
 }
 
 /**
- * Retry request with exponential backoff
+ * Retry a request function with backoff (see RetryOptions).
+ * A number (or nothing) keeps the legacy behavior: `maxRetries` total attempts (3), delays
+ * doubling from `baseDelay` without jitter, and every error except a 4xx retried.
  */
 export async function retryRequest<T = any>(
   requestFn: () => Promise<ApiResponse<T>>,
-  maxRetries = 3,
+  options: RetryOptions | number = 3,
   baseDelay = 1000
 ): Promise<ApiResponse<T>> {
-  let lastError: any;
-  
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await requestFn();
-    } catch (error) {
-      lastError = error;
-      
-      // Don't retry on client errors (4xx)
-      if (error instanceof ApiError && error.status >= 400 && error.status < 500) {
-        throw error;
-      }
-      
-      // Wait with exponential backoff
-      if (i < maxRetries - 1) {
-        const delay = baseDelay * Math.pow(2, i);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-  }
-  
-  throw lastError;
-}
\ No newline at end of file
+  const policy: RetryOptions =
+    typeof options === "number"
+      ? {
+          retries: options - 1,
+          baseDelay,
+          jitter: false,
+          maxDelay: Infinity,
+          maxElapsed: Infinity,
+          shouldRetry: (error) =>
+            !(error instanceof ApiError && error.status >= 400 && error.status < 500),
+        }
+      : options;
+  return withRetry(requestFn, policy);
+}
@@ -0,0 +1,46 @@
+// Schema Validation
+// Runtime validation of API payloads against JSON schemas (ajv)
+
+import Ajv, { AnySchema, ErrorObject, ValidateFunction } from "ajv";
+import addKeywords from "ajv-keywords";
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+addKeywords(ajv);
+
+/**
+ * Compiled validators, keyed by schema object
+ */
+const validators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Get (or compile and cache) the validator for a schema
+ */
+function getValidator(schema: AnySchema): ValidateFunction {
+  if (typeof schema === "boolean") {
+    return ajv.compile(schema);
+  }
+
+  let validator = validators.get(schema);
+  if (!validator) {
+    validator = ajv.compile(schema);
+    validators.set(schema, validator);
+  }
+  return validator;
+}
+
+/**
+ * Validates data against a schema, returning errors or null when valid
+ */
+export function validateSchema(schema: AnySchema, data: unknown): ErrorObject[] | null {
+  const validate = getValidator(schema);
+  return validate(data) ? null : validate.errors || [];
+}
+
+/**
+ * Formats validation errors into a readable string
+ */
+export function formatSchemaErrors(errors: ErrorObject[]): string {
+  return errors
+    .map((error) => `${error.instancePath || "(root)"} ${error.message || "is invalid"}`)
+    .join("; ");
+}
@@ -0,0 +1,12 @@
+// String Helpers
+// Dependency-free helpers for modules that util/index.ts itself re-exports
+
+/**
+ * Removes ASCII control characters (below U+0020), except those listed in `keep`
+ */
+export function stripControlChars(text: string, keep = ""): string {
+  return text
+    .split("")
+    .filter((char) => char.charCodeAt(0) >= 0x20 || keep.includes(char))
+    .join("");
+}
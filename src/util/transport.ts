@@ -0,0 +1,92 @@
+// HTTP Transport
+// The layer that actually sends requests; swappable, e.g. for the in-memory mock API
+
+import { HTTP_METHODS, HTTP_STATUS } from "./config";
+import type { TransferProgress } from "./request";
+
+/**
+ * fetch() init, plus upload progress reporting
+ */
+export interface TransportInit extends RequestInit {
+  onUploadProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Sends a fully built request; rejects like fetch() (TypeError on network failure,
+ * AbortError when init.signal aborts)
+ */
+export type Transport = (url: string, init: TransportInit) => Promise<Response>;
+
+/**
+ * fetch() over XMLHttpRequest, the only browser API that reports upload progress
+ */
+function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: TransferProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || HTTP_METHODS.GET, url);
+    xhr.withCredentials = init.credentials === "include";
+    Object.entries((init.headers as Record<string, string>) || {}).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress({
+          loaded: event.loaded,
+          total: event.total,
+          percent: event.total ? Math.round((event.loaded / event.total) * 100) : 0,
+        });
+      }
+    };
+    xhr.onload = () => {
+      const headers = new Headers();
+      xhr
+        .getAllResponseHeaders()
+        .trim()
+        .split(/[\r\n]+/)
+        .forEach((line) => {
+          const index = line.indexOf(":");
+          if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+        });
+      resolve(
+        new Response(xhr.status === HTTP_STATUS.NO_CONTENT ? null : xhr.responseText, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers,
+        })
+      );
+    };
+    // Same failures fetch() would report
+    xhr.onerror = () => reject(new TypeError("Failed to fetch"));
+    xhr.onabort = () => reject(new DOMException("The request was aborted.", "AbortError"));
+    init.signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+    xhr.send((init.body as XMLHttpRequestBodyInit | null) ?? null);
+  });
+}
+
+/**
+ * Default transport: fetch(), or XMLHttpRequest when upload progress is requested
+ */
+export const fetchTransport: Transport = (url, { onUploadProgress, ...init }) =>
+  onUploadProgress ? xhrFetch(url, init, onUploadProgress) : fetch(url, init);
+
+let currentTransport: Transport = fetchTransport;
+
+/**
+ * Transport used by request()
+ */
+export function getTransport(): Transport {
+  return currentTransport;
+}
+
+/**
+ * Replaces the transport used by request(); pass null to restore the default
+ */
+export function setTransport(transport: Transport | null): void {
+  currentTransport = transport || fetchTransport;
+}
@@ -0,0 +1,90 @@
+import { uploadFile, uploadFileChunked, FileValidationError } from "./upload";
+import { ENDPOINTS, FILE_UPLOAD, STORAGE_KEYS } from "./config";
+
+function jsonResponse(status: number, body: any) {
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: () => "application/json" },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  };
+}
+
+const fetchMock = jest.fn();
+
+beforeEach(() => {
+  localStorage.clear();
+  fetchMock.mockReset();
+  (global as any).fetch = fetchMock;
+});
+
+describe("uploadFile()", () => {
+  test("rejects files that fail FILE_UPLOAD checks before sending anything", async () => {
+    const script = new File(["alert(1)"], "run.js", { type: "text/javascript" });
+    const huge = new File(["x"], "huge.png", { type: "image/png" });
+    Object.defineProperty(huge, "size", { value: FILE_UPLOAD.MAX_SIZE + 1 });
+
+    const typeError = await uploadFile("/files", script).catch((e) => e);
+    const sizeError = await uploadFile("/avatar", huge, undefined, { fieldName: "avatar" }).catch(
+      (e) => e
+    );
+
+    expect(typeError).toBeInstanceOf(FileValidationError);
+    expect(sizeError.errors).toEqual({ avatar: [expect.any(String)] });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("uploadFileChunked()", () => {
+  const content = "0123456789";
+  const file = new File([content], "report.pdf", { type: "application/pdf", lastModified: 1 });
+
+  function serveChunks(startOffset: number) {
+    let offset = startOffset;
+    fetchMock.mockImplementation(async (url: string, init: any) => {
+      if (url.endsWith(ENDPOINTS.UPLOADS.CREATE)) {
+        return jsonResponse(201, { data: { id: "u1", offset: 0 } });
+      }
+      if (url.endsWith(ENDPOINTS.UPLOADS.DETAIL("u1"))) {
+        return jsonResponse(200, { data: { id: "u1", offset } });
+      }
+      if (url.endsWith(ENDPOINTS.UPLOADS.CHUNKS("u1"))) {
+        offset += init.body.size;
+        return jsonResponse(200, { data: { id: "u1", offset } });
+      }
+      return jsonResponse(200, { data: { id: "file-1" } });
+    });
+  }
+
+  test("sends ranged chunks and completes", async () => {
+    serveChunks(0);
+
+    const result = await uploadFileChunked(file, { requiresAuth: false, chunkSize: 4 });
+
+    const ranges = fetchMock.mock.calls
+      .filter(([url]) => url.endsWith(ENDPOINTS.UPLOADS.CHUNKS("u1")))
+      .map(([, init]) => init.headers["content-range"]);
+    expect(ranges).toEqual(["bytes 0-3/10", "bytes 4-7/10", "bytes 8-9/10"]);
+    expect(result.data).toEqual({ id: "file-1" });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.UPLOAD_SESSIONS) || "{}")).toEqual({});
+  });
+
+  test("resumes a stored session from the server's offset", async () => {
+    localStorage.setItem(
+      STORAGE_KEYS.UPLOAD_SESSIONS,
+      JSON.stringify({ "report.pdf:10:1:application/pdf": "u1" })
+    );
+    serveChunks(8);
+
+    await uploadFileChunked(file, { requiresAuth: false, chunkSize: 4 });
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.some((url) => url.endsWith(ENDPOINTS.UPLOADS.CREATE))).toBe(false);
+    const chunkCalls = fetchMock.mock.calls.filter(([url]) =>
+      url.endsWith(ENDPOINTS.UPLOADS.CHUNKS("u1"))
+    );
+    expect(chunkCalls).toHaveLength(1);
+    expect(chunkCalls[0][1].headers["content-range"]).toBe("bytes 8-9/10");
+  });
+});
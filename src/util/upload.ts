@@ -0,0 +1,269 @@
+// File Uploads
+// Validated single and multi-file uploads with progress, plus resumable chunked uploads
+
+import {
+  ENDPOINTS,
+  ERROR_MESSAGES,
+  FILE_UPLOAD,
+  HTTP_METHODS,
+  HTTP_STATUS,
+  STORAGE_KEYS,
+} from "./config";
+import { ApiError, ApiResponse, get, post, request, RequestOptions } from "./request";
+
+/**
+ * Client-side file checks, run before anything is sent
+ */
+export interface FileValidationOptions {
+  /** Bytes; defaults to FILE_UPLOAD.MAX_SIZE */
+  maxSize?: number;
+  /** MIME types or wildcards like "image/*"; defaults to FILE_UPLOAD's image and document types */
+  allowedTypes?: readonly string[];
+}
+
+export interface UploadOptions extends Omit<RequestOptions, "body"> {
+  /** Pass false to skip client-side validation */
+  validation?: FileValidationOptions | false;
+  /** Form field the file(s) are sent under */
+  fieldName?: string;
+}
+
+export interface ChunkedUploadOptions extends Omit<RequestOptions, "body" | "method"> {
+  chunkSize?: number;
+  validation?: FileValidationOptions | false;
+  /** Sent when the upload session is created (e.g. target folder) */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Server-side state of a resumable upload
+ */
+export interface UploadSession {
+  id: string;
+  /** Bytes the server has stored so far */
+  offset: number;
+}
+
+/**
+ * Thrown before any request is made; the message is also keyed by field for form error mapping
+ */
+export class FileValidationError extends ApiError {
+  file: File;
+
+  constructor(message: string, file: File, field = "file") {
+    super(message, HTTP_STATUS.UNPROCESSABLE_ENTITY, { message, errors: { [field]: [message] } });
+    this.name = "FileValidationError";
+    this.file = file;
+  }
+}
+
+const DEFAULT_ALLOWED_TYPES: readonly string[] = [
+  ...FILE_UPLOAD.ALLOWED_IMAGE_TYPES,
+  ...FILE_UPLOAD.ALLOWED_DOCUMENT_TYPES,
+];
+
+/**
+ * Whether a MIME type matches an allowed entry ("image/png" or "image/*")
+ */
+function matchesType(type: string, allowed: string): boolean {
+  return allowed.endsWith("/*") ? type.startsWith(allowed.slice(0, -1)) : type === allowed;
+}
+
+/**
+ * Returns an error message, or null when the file can be uploaded
+ */
+export function validateFile(file: File, options: FileValidationOptions = {}): string | null {
+  const { maxSize = FILE_UPLOAD.MAX_SIZE, allowedTypes = DEFAULT_ALLOWED_TYPES } = options;
+
+  if (file.size === 0) return ERROR_MESSAGES.FILE_EMPTY;
+  if (file.size > maxSize) return ERROR_MESSAGES.FILE_TOO_LARGE;
+  if (!allowedTypes.some((allowed) => matchesType(file.type, allowed))) {
+    return ERROR_MESSAGES.FILE_TYPE_NOT_ALLOWED;
+  }
+  return null;
+}
+
+function assertValidFile(file: File, options: FileValidationOptions, field: string): void {
+  const message = validateFile(file, options);
+  if (message) {
+    throw new FileValidationError(message, file, field);
+  }
+}
+
+function appendFields(formData: FormData, additionalData?: Record<string, any>): void {
+  if (!additionalData) return;
+  Object.entries(additionalData).forEach(([key, value]) => {
+    formData.append(key, value);
+  });
+}
+
+/**
+ * Upload a single file with FormData
+ */
+export async function uploadFile<T = any>(
+  endpoint: string,
+  file: File,
+  additionalData?: Record<string, any>,
+  options: UploadOptions = {}
+): Promise<ApiResponse<T>> {
+  const { validation = {}, fieldName = "file", ...requestOptions } = options;
+  if (validation) {
+    assertValidFile(file, validation, fieldName);
+  }
+
+  const formData = new FormData();
+  formData.append(fieldName, file);
+  appendFields(formData, additionalData);
+
+  return request<T>(endpoint, {
+    method: HTTP_METHODS.POST,
+    ...requestOptions,
+    body: formData,
+  });
+}
+
+/**
+ * Upload several files in one multipart request; nothing is sent if any file is invalid
+ */
+export async function uploadFiles<T = any>(
+  endpoint: string,
+  files: File[] | FileList,
+  additionalData?: Record<string, any>,
+  options: UploadOptions = {}
+): Promise<ApiResponse<T>> {
+  const { validation = {}, fieldName = "files", ...requestOptions } = options;
+  const list = Array.from(files);
+  if (validation) {
+    list.forEach((file) => assertValidFile(file, validation, fieldName));
+  }
+
+  const formData = new FormData();
+  list.forEach((file) => formData.append(fieldName, file));
+  appendFields(formData, additionalData);
+
+  return request<T>(endpoint, {
+    method: HTTP_METHODS.POST,
+    ...requestOptions,
+    body: formData,
+  });
+}
+
+/**
+ * Upload session ids by file, so an interrupted upload can resume after a reload
+ */
+function getStoredSessions(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.UPLOAD_SESSIONS) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function storeSessionId(fileKey: string, id: string | null): void {
+  const sessions = getStoredSessions();
+  if (id) {
+    sessions[fileKey] = id;
+  } else {
+    delete sessions[fileKey];
+  }
+  localStorage.setItem(STORAGE_KEYS.UPLOAD_SESSIONS, JSON.stringify(sessions));
+}
+
+function getFileKey(file: File): string {
+  return [file.name, file.size, file.lastModified, file.type].join(":");
+}
+
+/**
+ * Looks up a stored session on the server; null when there is none or it has expired
+ */
+async function resumeSession(
+  fileKey: string,
+  options: RequestOptions
+): Promise<UploadSession | null> {
+  const id = getStoredSessions()[fileKey];
+  if (!id) return null;
+
+  try {
+    const response = await get<UploadSession>(ENDPOINTS.UPLOADS.DETAIL(id), options);
+    return response.data;
+  } catch (error) {
+    if (
+      error instanceof ApiError &&
+      (error.status === HTTP_STATUS.NOT_FOUND || error.status === HTTP_STATUS.GONE)
+    ) {
+      storeSessionId(fileKey, null);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Upload a large file in chunks. Each chunk is retried on network drops; if the upload still
+ * fails (or is cancelled), calling again with the same file resumes from the server's offset.
+ */
+export async function uploadFileChunked<T = any>(
+  file: File,
+  options: ChunkedUploadOptions = {}
+): Promise<ApiResponse<T>> {
+  const {
+    chunkSize = FILE_UPLOAD.CHUNK_SIZE,
+    validation = {},
+    metadata,
+    onUploadProgress,
+    retry = true,
+    ...requestOptions
+  } = options;
+  if (validation) {
+    assertValidFile(file, { maxSize: FILE_UPLOAD.MAX_CHUNKED_SIZE, ...validation }, "file");
+  }
+
+  const stepOptions: RequestOptions = { ...requestOptions, retry };
+  const fileKey = getFileKey(file);
+  let session = await resumeSession(fileKey, stepOptions);
+  if (!session) {
+    const response = await post<UploadSession>(
+      ENDPOINTS.UPLOADS.CREATE,
+      { filename: file.name, size: file.size, type: file.type, metadata },
+      stepOptions
+    );
+    session = response.data;
+    storeSessionId(fileKey, session.id);
+  }
+
+  const report = (loaded: number) =>
+    onUploadProgress?.({
+      loaded,
+      total: file.size,
+      percent: file.size ? Math.round((loaded / file.size) * 100) : 100,
+    });
+
+  let offset = session.offset;
+  report(offset);
+
+  while (offset < file.size) {
+    const start = offset;
+    const end = Math.min(start + chunkSize, file.size);
+    const headers = new Headers(requestOptions.headers);
+    headers.set("Content-Range", `bytes ${start}-${end - 1}/${file.size}`);
+
+    const response = await request<UploadSession>(ENDPOINTS.UPLOADS.CHUNKS(session.id), {
+      ...stepOptions,
+      method: HTTP_METHODS.PUT,
+      headers,
+      body: file.slice(start, end),
+      onUploadProgress: onUploadProgress && ((progress) => report(start + progress.loaded)),
+    });
+
+    // Trust the server's offset; a chunk that made no progress would otherwise loop forever
+    if (!(response.data?.offset > start)) {
+      throw new ApiError(ERROR_MESSAGES.INVALID_RESPONSE, response.status, response.data);
+    }
+    offset = response.data.offset;
+    report(offset);
+  }
+
+  const result = await post<T>(ENDPOINTS.UPLOADS.COMPLETE(session.id), undefined, stepOptions);
+  storeSessionId(fileKey, null);
+  return result;
+}
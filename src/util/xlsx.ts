@@ -0,0 +1,269 @@
+// XLSX Writer
+// Minimal single-sheet SpreadsheetML workbook in an uncompressed ZIP container
+
+import { stripControlChars } from "./strings";
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  /** Number of leading rows drawn bold (e.g. the header) */
+  headerRows?: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE) checksum as used by ZIP
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * UTF-8 encodes a string (TextEncoder is not available everywhere we run, e.g. jsdom)
+ */
+export function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.codePointAt(i) as number;
+    // Astral characters take two UTF-16 units
+    if (code > 0xffff) i++;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * ZIP archive with every entry stored (no compression); enough for Office documents
+ */
+export function createZip(files: Array<{ name: string; data: Uint8Array }>): Uint8Array {
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate =
+    ((Math.max(1980, now.getFullYear()) - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const entries = files.map(({ name, data }) => ({
+    name: encodeUtf8(name),
+    data,
+    crc: crc32(data),
+  }));
+  const localSize = entries.reduce(
+    (sum, { name, data }) => sum + 30 + name.length + data.length,
+    0
+  );
+  const centralSize = entries.reduce((sum, { name }) => sum + 46 + name.length, 0);
+  const buffer = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const bytes = (value: Uint8Array) => {
+    buffer.set(value, offset);
+    offset += value.length;
+  };
+  // Shared by local and central headers: version, flags (bit 11 = UTF-8 names), method, time,
+  // date, crc and sizes
+  const commonHeader = (entry: (typeof entries)[number]) => {
+    u16(20);
+    u16(0x0800);
+    u16(0);
+    u16(dosTime);
+    u16(dosDate);
+    u32(entry.crc);
+    u32(entry.data.length);
+    u32(entry.data.length);
+    u16(entry.name.length);
+  };
+
+  const localOffsets: number[] = [];
+  entries.forEach((entry) => {
+    localOffsets.push(offset);
+    u32(0x04034b50);
+    commonHeader(entry);
+    u16(0); // extra field length
+    bytes(entry.name);
+    bytes(entry.data);
+  });
+
+  const centralOffset = offset;
+  entries.forEach((entry, index) => {
+    u32(0x02014b50);
+    u16(20); // version made by
+    commonHeader(entry);
+    u16(0); // extra field length
+    u16(0); // comment length
+    u16(0); // disk number
+    u16(0); // internal attributes
+    u32(0); // external attributes
+    u32(localOffsets[index]);
+    bytes(entry.name);
+  });
+
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(entries.length);
+  u16(entries.length);
+  u32(centralSize);
+  u32(centralOffset);
+  u16(0);
+
+  return buffer;
+}
+
+function escapeXml(text: string): string {
+  // Control characters other than tab and line breaks are not allowed in XML 1.0 at all
+  return stripControlChars(text, "\t\n\r")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Spreadsheet column name for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function getColumnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function renderCell(value: XlsxCell, ref: string, style: number): string {
+  const s = style ? ` s="${style}"` : "";
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    value
+  )}</t></is></c>`;
+}
+
+function renderSheet({ rows, headerRows = 0 }: XlsxSheet): string {
+  const body = rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row
+          .map((value, colIndex) =>
+            renderCell(
+              value,
+              `${getColumnName(colIndex)}${rowIndex + 1}`,
+              rowIndex < headerRows ? 1 : 0
+            )
+          )
+          .join("")}</row>`
+    )
+    .join("");
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${body}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Sheet names are limited to 31 characters and may not contain []:*?/\
+ */
+function sanitizeSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1";
+}
+
+const CONTENT_TYPES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  "</Types>";
+
+const ROOT_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  "</Relationships>";
+
+const WORKBOOK_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  "</Relationships>";
+
+// Style 0 is the default, style 1 is bold
+const STYLES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  "</styleSheet>";
+
+/**
+ * Builds an .xlsx file with one worksheet; strings are written inline, numbers stay numeric
+ */
+export function createXlsx(sheet: XlsxSheet): Uint8Array {
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sanitizeSheetName(sheet.name))}" sheetId="1" r:id="rId1"/>` +
+    "</sheets></workbook>";
+
+  return createZip([
+    { name: "[Content_Types].xml", data: encodeUtf8(CONTENT_TYPES) },
+    { name: "_rels/.rels", data: encodeUtf8(ROOT_RELS) },
+    { name: "xl/workbook.xml", data: encodeUtf8(workbook) },
+    { name: "xl/_rels/workbook.xml.rels", data: encodeUtf8(WORKBOOK_RELS) },
+    { name: "xl/styles.xml", data: encodeUtf8(STYLES) },
+    { name: "xl/worksheets/sheet1.xml", data: encodeUtf8(renderSheet(sheet)) },
+  ]);
+}